@@ -1,8 +1,19 @@
 import { TFile } from 'obsidian';
-import { UpkeepTask } from './types';
+import { UpkeepTask, HistoryItem } from './types';
 import { RecurringUpkeepUtils } from './utils/RecurringUpkeepUtils';
 import { DateUtils } from './utils/DateUtils';
 import { I18nUtils } from './i18n/I18nUtils';
+import { TaskSchema } from './utils/TaskSchema';
+import { SettingsUtils } from './utils/SettingsUtils';
+import { CalendarRule } from './utils/CalendarRule';
+import { RRule } from './utils/RRule';
+import { TaskProcessor } from './utils/TaskProcessor';
+import { Season } from './utils/Season';
+import { WorkCalendar } from './utils/WorkCalendar';
+import { FlexibleWindow } from './utils/FlexibleWindow';
+import { CompletionHistoryParser } from './utils/CompletionHistoryParser';
+import { HistoryStore } from './utils/HistoryStore';
+import { FilterParser } from './views/FilterParser';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from './constants';
 
 export class RecurringUpkeepSchedulerTests {
@@ -146,6 +157,477 @@ export class RecurringUpkeepSchedulerTests {
     console.log("✅ Smart append function (tested through completion history feature)");
     passed += 3; // Account for these internal tests
 
+    // Test 13: Configurable task schema
+    console.log("\n🗂️ Test 13: Configurable task schema");
+    assert(TaskSchema.isRecurringTask(["#recurring-task"], undefined), "Default tag should mark a task");
+    assert(TaskSchema.isRecurringTask([], "recurring-task"), "Default type should mark a task");
+    assert(!TaskSchema.isRecurringTask(["#chore"], "note"), "Other tags and types should not mark a task");
+
+    const originalSettings = SettingsUtils.settings;
+    SettingsUtils.init({
+      ...originalSettings,
+      schema: {
+        taskTag: "#maintenance",
+        taskType: "",
+        lastDoneField: "lastServiced",
+        intervalField: "every",
+        intervalUnitField: "unit"
+      }
+    });
+    assert(TaskSchema.isRecurringTask(["#maintenance"], undefined), "Custom tag should mark a task");
+    assert(!TaskSchema.isRecurringTask([], "recurring-task"), "Empty type setting should disable type matching");
+    const mappedTask = TaskSchema.toTask(mockFile, { lastServiced: "2024-01-10", every: 2, unit: "weeks" }, []);
+    assertEqual(mappedTask?.last_done, "2024-01-10", "Custom last done field should be mapped to last_done");
+    assertEqual(mappedTask?.interval, 2, "Custom interval field should be mapped to interval");
+    assertEqual(mappedTask?.interval_unit, "weeks", "Custom unit field should be mapped to interval_unit");
+    assertEqual(TaskSchema.toTask(mockFile, { last_done: "2024-01-10", interval: 2, interval_unit: "weeks" }, []), null, "Default field names should be ignored with a custom schema");
+    SettingsUtils.init(originalSettings);
+    // Dataview hands over dates as DateTime objects and may leave numbers as text
+    const dateTime = (iso: string) => ({ toFormat: () => iso });
+    const dataviewTask = TaskSchema.toTask(mockFile, { last_done: dateTime("2024-01-10T00:00:00"), snoozed_until: dateTime("2024-01-12T18:30:00"), interval: "2", interval_unit: "weeks", on: [1, "monday", null] }, []);
+    assertEqual(dataviewTask?.last_done, "2024-01-10", "Dataview dates should become date text");
+    assertEqual(dataviewTask?.snoozed_until, "2024-01-12T18:30", "Dataview dates with a time should keep it");
+    assertEqual(dataviewTask?.interval, 2, "Numbers written as text should become numbers");
+    assertEqual(JSON.stringify(dataviewTask?.on), '[1,"monday"]', "Lists should keep only values of the expected type");
+    assertEqual(TaskSchema.toTask(mockFile, { last_done: 20240110, interval: { weeks: 2 }, interval_unit: "weeks" }, []), null, "Values of the wrong type should count as absent");
+
+    // Test 14: Fixed schedules anchored to the original due date
+    console.log("\n📌 Test 14: Fixed schedules");
+    assertEqual(DateUtils.calculateFixedNextDueDate("2024-01-01", "2024-02-10", 1, "months"), "2024-03-01", "Late completion should keep the anchored schedule");
+    assertEqual(DateUtils.calculateFixedNextDueDate("2024-01-01", "2024-01-25", 1, "months"), "2024-02-01", "Early completion should count toward the next occurrence");
+    assertEqual(DateUtils.calculateFixedNextDueDate("2024-01-31", "2024-03-05", 1, "months"), "2024-03-31", "Month ends should be counted from the anchor, not drift");
+    assertEqual(DateUtils.calculateFixedNextDueDate("2024-01-01", undefined, 2, "weeks"), "2024-01-01", "Never completed should be due on the anchor date");
+
+    const fixedTask: UpkeepTask = {
+      file: mockFile,
+      last_done: "2024-01-20",
+      interval: 1,
+      interval_unit: "months",
+      schedule: "fixed",
+      anchor_date: "2024-01-01"
+    };
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(fixedTask), "2024-02-01", "Fixed task should be due on the next anchored date");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...fixedTask, schedule: undefined }), "2024-02-20", "Rolling task should be due one interval after completion");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...fixedTask, last_done: undefined }, "2023-12-25").daysRemaining, 7, "Anchored task should not be overdue before its first due date");
+
+    // Test 15: Calendar-rule recurrences
+    console.log("\n🗓️ Test 15: Calendar rules");
+    const weekdays = CalendarRule.parse(["monday", "thursday"], "weeks")!;
+    assertEqual(CalendarRule.nextDueDate(weekdays, 1, "weeks", "2024-01-01", "2024-01-01"), "2024-01-04", "Monday completion should be due Thursday");
+    assertEqual(CalendarRule.nextDueDate(weekdays, 1, "weeks", "2024-01-04", "2024-01-04"), "2024-01-08", "Thursday completion should be due next Monday");
+    const everyOtherSaturday = CalendarRule.parse("saturday", "weeks")!;
+    assertEqual(CalendarRule.nextDueDate(everyOtherSaturday, 2, "weeks", "2024-01-06", "2024-01-06"), "2024-01-20", "Every other Saturday should skip a week");
+    const secondSaturday = CalendarRule.parse("2nd saturday", "months")!;
+    assertEqual(CalendarRule.nextDueDate(secondSaturday, 1, "months", "2024-01-13", "2024-01-13"), "2024-02-10", "2nd Saturday should follow the month");
+    const lastFriday = CalendarRule.parse("last friday", "months")!;
+    assertEqual(CalendarRule.nextDueDate(lastFriday, 1, "months", "2024-01-26", "2024-01-26"), "2024-02-23", "Last Friday of February 2024 is the 23rd");
+    const quarterly = CalendarRule.parse(15, "months")!;
+    assertEqual(CalendarRule.nextDueDate(quarterly, 3, "months", "2024-01-15", "2024-01-15"), "2024-04-15", "15th of every quarter");
+    assertEqual(CalendarRule.parse("2nd saturday", "weeks"), null, "Nth weekday should not be accepted for weekly intervals");
+    assertEqual(CalendarRule.parse("someday", "months"), null, "Unknown rules should be rejected");
+    assertEqual(RecurringUpkeepUtils.getFrequencyDescription(1, "weeks", { on: "monday, thursday" }), "Weekly on Monday and Thursday", "Weekday rule frequency text");
+    assertEqual(RecurringUpkeepUtils.getFrequencyDescription(1, "months", { on: "last friday" }), "Monthly on the last Friday", "Last weekday frequency text");
+    assertEqual(RecurringUpkeepUtils.getFrequencyDescription(3, "months", { on: "15" }), "Every 3 months on the 15th", "Day of month frequency text");
+    const ruleTask: UpkeepTask = { file: mockFile, last_done: "2024-01-01", interval: 1, interval_unit: "weeks", on: ["monday", "thursday"] };
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(ruleTask, "2024-01-01").daysRemaining, 3, "Rule task completed today should be due on the next matching day");
+
+    // Test 16: iCalendar recurrence rules
+    console.log("\n📆 Test 16: RRULE schedules");
+    const quarterlySaturday = RRule.parse("FREQ=MONTHLY;BYDAY=1SA;BYMONTH=3,6,9,12")!;
+    assert(quarterlySaturday !== null, "Should parse a monthly rule with BYDAY and BYMONTH");
+    assertEqual(RRule.nextDueDate(quarterlySaturday, "2024-03-02", "2024-03-02"), "2024-06-01", "First Saturday of the next listed month");
+    const lastFridays = RRule.parse("RRULE:FREQ=MONTHLY;BYDAY=-1FR")!;
+    assertEqual(RRule.nextDueDate(lastFridays, "2024-01-26", "2024-01-26"), "2024-02-23", "Negative BYDAY positions count from the month end");
+    const biweekly = RRule.parse("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH")!;
+    assertEqual(RRule.nextDueDate(biweekly, "2024-01-02", "2024-01-04"), "2024-01-16", "Weekly interval should skip whole weeks");
+    const limited = RRule.parse("DTSTART:20240101\nRRULE:FREQ=MONTHLY;COUNT=3")!;
+    assertEqual(limited.dtstart, "2024-01-01", "Should read DTSTART");
+    assertEqual(RRule.nextDueDate(limited, "2024-01-01", "2024-02-01"), "2024-03-01", "Third occurrence is within COUNT");
+    assertEqual(RRule.nextDueDate(limited, "2024-01-01", "2024-03-01"), null, "Series should end after COUNT occurrences");
+    assertEqual(RRule.parse("FREQ=MONTHLY;BYSETPOS=-1;BYDAY=MO,TU,WE,TH,FR"), null, "Unsupported parts should be rejected");
+    assertEqual(RRule.parse("FREQ=WEEKLY;BYDAY=2MO"), null, "Positions in weekly rules should be rejected");
+    assertEqual(
+      RecurringUpkeepUtils.getFrequencyDescription(1, "months", { rrule: "FREQ=MONTHLY;BYDAY=1SA;BYMONTH=3,6,9,12" }),
+      "Monthly on the 1st Saturday in March, June, September and December",
+      "RRULE frequency text"
+    );
+    const rruleTask = TaskSchema.toTask(mockFile, { last_done: "2024-03-02", rrule: "FREQ=WEEKLY;INTERVAL=2" }, []);
+    assertEqual(rruleTask?.interval_unit, "weeks", "Interval unit should be derived from FREQ");
+    assertEqual(rruleTask?.interval, 2, "Interval should be derived from INTERVAL");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(rruleTask!), "2024-03-16", "Rule without BYDAY should repeat on the start weekday");
+
+    // Test 17: Due soon warning window
+    console.log("\n🔔 Test 17: Due soon status");
+    const weeklyTask: UpkeepTask = { file: mockFile, last_done: "2024-01-01", interval: 1, interval_unit: "weeks" };
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(weeklyTask, "2024-01-03").state, "up-to-date", "5 days left should be up to date with the default 3-day window");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(weeklyTask, "2024-01-05").state, "due-soon", "3 days left should be due soon");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(weeklyTask, "2024-01-08").state, "overdue", "Due today should count as overdue");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...weeklyTask, warn_days: 6 }, "2024-01-03").state, "due-soon", "warn_days should widen the window");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...weeklyTask, warn_days: 0 }, "2024-01-07").state, "up-to-date", "warn_days: 0 should turn the warning off");
+
+    const dueSoonFilter = FilterParser.parse("status:due-soon");
+    assertEqual(dueSoonFilter.status, "due-soon", "Filter should accept status:due-soon");
+    const filterTasks = TaskProcessor.processTasks([
+      weeklyTask,
+      { ...weeklyTask, last_done: "2023-12-20" },
+      { ...weeklyTask, last_done: "2024-01-04" }
+    ], "2024-01-05");
+    assertEqual(FilterParser.apply(filterTasks, dueSoonFilter).length, 1, "Only the due-soon task should match status:due-soon");
+    assertEqual(FilterParser.apply(filterTasks, FilterParser.parse("status:up-to-date")).length, 1, "Due-soon tasks should not count as up to date");
+
+    // Test 18: Grace period before a task counts as overdue
+    console.log("\n⏳ Test 18: Grace period");
+    const graceTask: UpkeepTask = { ...weeklyTask, grace: "3 days" };
+    assertEqual(RecurringUpkeepUtils.getGraceDays(graceTask), 3, "Should read '3 days'");
+    assertEqual(RecurringUpkeepUtils.getGraceDays({ ...weeklyTask, grace: "1 week" }), 7, "Should read '1 week'");
+    assertEqual(RecurringUpkeepUtils.getGraceDays({ ...weeklyTask, grace: "soon" }), 0, "Invalid grace should be ignored");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(graceTask, "2024-01-10").state, "grace", "2 days late with 3 days grace should be within grace");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(graceTask, "2024-01-11").state, "grace", "Last day of the grace window should still be within grace");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(graceTask, "2024-01-12").state, "overdue", "After the grace window the task should be overdue");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(weeklyTask, "2024-01-10").state, "overdue", "Without grace a late task should be overdue");
+    const graceTasks = TaskProcessor.processTasks([graceTask, weeklyTask], "2024-01-10");
+    assertEqual(FilterParser.apply(graceTasks, FilterParser.parse("status:overdue")).length, 1, "Grace tasks should not match status:overdue");
+    assertEqual(FilterParser.apply(graceTasks, FilterParser.parse("status:grace")).length, 1, "Grace tasks should match status:grace");
+
+    // Test 19: Snoozing postpones a task without completing it
+    console.log("\n💤 Test 19: Snooze");
+    const snoozedTask: UpkeepTask = { ...weeklyTask, snoozed_until: "2024-01-12" };
+    const snoozedStatus = RecurringUpkeepUtils.determineTaskStatus(snoozedTask, "2024-01-10");
+    assertEqual(snoozedStatus.state, "snoozed", "An overdue task snoozed into the future should be snoozed");
+    assertEqual(snoozedStatus.daysRemaining, 2, "Days remaining should count to the snooze date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(snoozedTask, "2024-01-12").state, "overdue", "The snooze should end on its date");
+    assertEqual(RecurringUpkeepUtils.getActiveSnooze(snoozedTask, "2024-01-15", "2024-01-10"), null, "A snooze before the next due date should have no effect");
+    const snoozeTasks = TaskProcessor.processTasks([snoozedTask, weeklyTask], "2024-01-10");
+    assertEqual(FilterParser.apply(snoozeTasks, FilterParser.parse("status:overdue")).length, 1, "Snoozed tasks should not match status:overdue");
+    assertEqual(FilterParser.apply(snoozeTasks, FilterParser.parse("status:snoozed")).length, 1, "Snoozed tasks should match status:snoozed");
+    assertEqual(RecurringUpkeepUtils.getSnoozeDate(7, "2024-01-28"), "2024-02-04", "Snooze presets should add days across months");
+    const oldHistory = "# Task\n\n## Completion history\n\n| Date | Time | Days since last | Days scheduled | User |\n|------|------|------|------|------|\n| 2024-01-01 | 10:00 | - | 7 | me |";
+    const upgradedHistory = RecurringUpkeepUtils.addActionColumn(oldHistory, ["## Completion history"]).split("\n");
+    assertEqual(upgradedHistory[4].split("|").length - 2, 6, "Old history tables should gain an Action column");
+    assertEqual(upgradedHistory[5].split("|").length - 2, 6, "The separator row should gain a column too");
+    assertEqual(RecurringUpkeepUtils.addActionColumn(upgradedHistory.join("\n"), ["## Completion history"]), upgradedHistory.join("\n"), "Upgraded tables should be left alone");
+
+    // Test 20: Skipped occurrences move the schedule on without a completion
+    console.log("\n⏭️ Test 20: Skip");
+    const skippedTask: UpkeepTask = { ...weeklyTask, last_skipped: "2024-01-08" };
+    assertEqual(RecurringUpkeepUtils.getScheduleBase(skippedTask), "2024-01-08", "A later skip should be the schedule base");
+    assertEqual(RecurringUpkeepUtils.getScheduleBase({ ...weeklyTask, last_skipped: "2023-12-01" }), "2024-01-01", "An older skip should not move the schedule back");
+    assertEqual(RecurringUpkeepUtils.getScheduleBase({ ...weeklyTask, last_done: undefined }), undefined, "Without completions or skips there is no base");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(skippedTask), "2024-01-15", "Rolling tasks should continue from the skipped date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(skippedTask, "2024-01-10").state, "up-to-date", "A skipped occurrence should not be overdue");
+    const skippedRule: UpkeepTask = { ...weeklyTask, on: "monday", last_skipped: "2024-01-08" };
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(skippedRule), "2024-01-15", "Calendar rules should move past the skipped occurrence");
+
+    // Test 21: Paused tasks stay listed but never count as overdue
+    console.log("\n⏸️ Test 21: Pause");
+    const pausedTask: UpkeepTask = { ...weeklyTask, paused: true };
+    const pausedStatus = RecurringUpkeepUtils.determineTaskStatus(pausedTask, "2024-03-01");
+    assertEqual(pausedStatus.state, "paused", "paused: true should pause an overdue task");
+    assertEqual(pausedStatus.calculatedNextDue, null, "An indefinite pause has no due date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...weeklyTask, paused: "false" }, "2024-03-01").state, "overdue", "paused: false should not pause");
+    const seasonalTask: UpkeepTask = { ...weeklyTask, paused_until: "2024-04-01" };
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(seasonalTask, "2024-03-01").state, "paused", "paused_until should pause until its date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(seasonalTask, "2024-04-01").state, "overdue", "The pause should end on its date");
+    const pauseTasks = TaskProcessor.processTasks([pausedTask, seasonalTask, weeklyTask], "2024-03-01");
+    assertEqual(FilterParser.apply(pauseTasks, FilterParser.parse("status:overdue")).length, 1, "Paused tasks should not match status:overdue");
+    assertEqual(FilterParser.apply(pauseTasks, FilterParser.parse("paused")).length, 2, "The paused keyword should list paused tasks");
+    const dueDateOrder = FilterParser.apply(pauseTasks, FilterParser.parse("sort:due-date"));
+    assertEqual(dueDateOrder[0].state, "overdue", "Paused tasks should sort after active ones");
+
+    // Test 22: Seasonal active windows
+    console.log("\n🌱 Test 22: Seasons");
+    const lawnTask: UpkeepTask = { ...weeklyTask, last_done: "2023-10-20", active_months: ["4-10"] };
+    const winterStatus = RecurringUpkeepUtils.determineTaskStatus(lawnTask, "2024-01-15");
+    assertEqual(winterStatus.state, "dormant", "Tasks should be dormant out of season");
+    assertEqual(winterStatus.calculatedNextDue, "2024-04-01", "Dormant tasks should wait for the season start");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(lawnTask, "2024-04-03"), "2024-04-08", "The schedule should restart from the season start");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(lawnTask, "2024-04-03").state, "up-to-date", "A stale last_done should not make the task overdue");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...lawnTask, last_done: "2024-04-05" }, "2024-04-06"), "2024-04-12", "Completions in season should count again");
+    const gutterSeason = Season.parse({ active_between: "11-01..03-15" });
+    assertEqual(Season.isActive(gutterSeason!, new Date(2024, 0, 10)), true, "Ranges should wrap around the new year");
+    assertEqual(Season.currentStart(gutterSeason!, "2024-01-10"), "2023-11-01", "The season start should lie in the previous year");
+    assertEqual(Season.currentStart(Season.parse({ active_months: [4, 5, 6] })!, "2024-06-10"), "2024-04-01", "Adjacent months should form one season");
+    assertEqual(Season.parse({ active_months: "apr-oct" })!.length, 1, "Month names should be accepted");
+    assertEqual(Season.isInvalid({ active_months: "13" }), true, "Invalid months should be reported");
+    assertEqual(FilterParser.apply(TaskProcessor.processTasks([lawnTask, weeklyTask], "2024-01-15"), FilterParser.parse("status:dormant")).length, 1, "status:dormant should list tasks out of season");
+
+    // Test 23: Start and end dates plus occurrence limits
+    console.log("\n🏁 Test 23: Task lifetime");
+    const courseTask: UpkeepTask = { ...weeklyTask, last_done: undefined, start_date: "2024-02-01", end_date: "2024-03-01" };
+    const notStarted = RecurringUpkeepUtils.determineTaskStatus(courseTask, "2024-01-20");
+    assertEqual(notStarted.state, "not-started", "Tasks should not start before their start date");
+    assertEqual(notStarted.calculatedNextDue, "2024-02-01", "A never-done task should first be due on its start date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(courseTask, "2024-02-02").state, "overdue", "Once started, the task should become due");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(courseTask, "2024-03-02").state, "finished", "Tasks should finish after their end date");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...courseTask, last_done: "2024-02-25" }, "2024-02-26").state, "finished", "Tasks should finish when the next occurrence is past the end date");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...weeklyTask, on: "monday", start_date: "2024-02-01" }, "2024-01-10"), "2024-02-05", "Calendar rules should wait for the start date");
+    const limitedTask: UpkeepTask = { ...weeklyTask, max_occurrences: 3, completed_occurrences: 3 };
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(limitedTask, "2024-03-01").state, "finished", "Tasks should finish after max_occurrences completions");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...limitedTask, completed_occurrences: 2 }, "2024-03-01").state, "overdue", "Tasks below the limit should stay active");
+    const history = "## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|------|------|------|------|------|------|\n| 2024-01-01 | 10:00 | - | 7 | me |\n| 2024-01-08 | 10:00 | - | 7 | me | Skipped |\n| 2024-01-15 | 10:00 | 14 | 7 | me | Completed |";
+    assertEqual(RecurringUpkeepUtils.countCompletions(history), 2, "Only completion rows should be counted");
+    const lifetimeTasks = TaskProcessor.processTasks([courseTask, limitedTask, weeklyTask], "2024-01-20");
+    assertEqual(FilterParser.apply(lifetimeTasks, FilterParser.parse("status:finished")).map(task => task.state).join(), "finished", "status:finished should list finished tasks");
+    assertEqual(FilterParser.apply(lifetimeTasks, FilterParser.parse("status:not-started")).length, 1, "status:not-started should list tasks before their start");
+
+    // Test 24: Hour and minute intervals
+    console.log("\n⏱️ Test 24: Sub-day intervals");
+    const feedingTask: UpkeepTask = { file: mockFile, last_done: "2024-03-10T06:30", interval: 8, interval_unit: "hours" };
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-10T06:30", 8, "hours"), "2024-03-10T14:30", "Hour intervals should keep the time of day");
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-10T23:50", 15, "minutes"), "2024-03-11T00:05", "Minute intervals should roll over midnight");
+    assertEqual(RecurringUpkeepUtils.calculateIntervalInDays(6, "hours"), 0.25, "Six hours should be a quarter of a day");
+    const feedingSoon = RecurringUpkeepUtils.determineTaskStatus(feedingTask, "2024-03-10T12:30");
+    assertEqual(feedingSoon.state, "up-to-date", "Hour tasks should ignore the global due-soon window");
+    assertEqual(feedingSoon.daysRemaining * 24, 2, "Hour tasks should count down in fractions of a day");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(feedingTask, "2024-03-10T15:00").state, "overdue", "Hour tasks should be overdue once their time has passed, even on the day they were done");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...feedingTask, grace: "1 hour" }, "2024-03-10T15:00").state, "grace", "Grace periods should accept hours");
+    assertEqual(DateUtils.calculateFixedNextDueDate("2024-03-01T08:00", "2024-03-10T09:00", 8, "hours"), "2024-03-10T16:00", "Fixed hour schedules should keep their anchor times");
+    assertEqual(I18nUtils.formatRelativeDate("2024-03-10T14:30", "2024-03-10T11:30"), "in 3 hours", "Relative dates should use hours within a day");
+    assertEqual(I18nUtils.formatRelativeDate("2024-03-10T11:00", "2024-03-10T11:30"), "30 minutes ago", "Relative dates should use minutes within an hour");
+    assertEqual(I18nUtils.formatOverdue(0.125), "⚠️ Overdue by 3 hours", "Overdue text should use hours for sub-day delays");
+
+    // Test 25: Usage-based (meter) intervals
+    console.log("\n📏 Test 25: Meter intervals");
+    const chainTask = TaskSchema.toTask(mockFile, { tags: ["recurring-task"], last_done: "2024-03-01", meter: "[[Bike]]", meter_interval: 300, meter_unit: "km", last_meter: 1000 }, ["recurring-task"])!;
+    assertEqual(chainTask !== null, true, "Tasks with only a meter interval should be recognised");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...chainTask, meter_reading: 1100 }, "2024-06-01").state, "up-to-date", "Meter tasks should ignore the calendar");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...chainTask, meter_reading: 1280 }, "2024-03-02").state, "due-soon", "Meter tasks should be due soon within the last tenth of their interval");
+    const chainOverdue = RecurringUpkeepUtils.determineTaskStatus({ ...chainTask, meter_reading: 1340 }, "2024-03-02");
+    assertEqual(chainOverdue.state, "overdue", "Meter tasks should be overdue once the interval is used up");
+    assertEqual(chainOverdue.meterRemaining, -40, "Meter tasks should report the use left");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...chainTask, last_meter: undefined, meter_reading: 1340 }, "2024-03-02").state, "overdue", "Meter tasks without a reading at completion should be due");
+    const oilTask: UpkeepTask = { ...chainTask, interval: 1, interval_unit: "years", meter_interval: 10000, last_meter: 20000 };
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...oilTask, meter_reading: 30500 }, "2024-04-01").dueByMeter, true, "The meter should win when it comes first");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus({ ...oilTask, meter_reading: 21000 }, "2025-03-05").state, "overdue", "The calendar should win when it comes first");
+    assertEqual(RecurringUpkeepUtils.getFrequencyDescription(1, "years", oilTask), "Yearly or every 10,000 km, whichever comes first", "Combined frequency text");
+    const meterTasks = TaskProcessor.processTasks([{ ...chainTask, meter_reading: 1340 }, { ...chainTask, file: { ...mockFile, name: "Bike lights.md" }, meter_reading: 1100 }], "2024-03-02");
+    assertEqual(FilterParser.apply(meterTasks, FilterParser.parse("status:overdue")).map(task => task.meterRemaining).join(), "-40", "Meter-overdue tasks should match status:overdue");
+    assertEqual(FilterParser.apply(meterTasks, FilterParser.parse("status:up-to-date")).map(task => task.meterRemaining).join(), "200", "Meter-overdue tasks should not count as up to date");
+    assertEqual(FilterParser.apply([...meterTasks].reverse(), FilterParser.parse("sort:status"))[0].meterRemaining, -40, "Meter-overdue tasks should sort with overdue tasks");
+    assertEqual(RecurringUpkeepUtils.countCompletions("## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | - | me | Completed at 1000 km |"), 1, "Completions with a meter reading should be counted");
+
+    // Test 26: Working days and holidays
+    console.log("\n💼 Test 26: Working days");
+    WorkCalendar.setHolidays(["2024-03-15"], ["12-25"]);
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-07", 5, "days", true), "2024-03-14", "Day intervals should skip weekends");
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-08", 5, "days", true), "2024-03-18", "Day intervals should skip holidays");
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-02", 1, "weeks", true), "2024-03-11", "Due dates on a weekend should move to Monday");
+    assertEqual(DateUtils.calculateNextDueDate("2024-11-25", 1, "months", true), "2024-12-26", "Yearly holidays should apply every year");
+    assertEqual(DateUtils.calculateNextDueDate("2024-03-08", 5, "days"), "2024-03-13", "Calendar days should stay the default");
+    assertEqual(DateUtils.calculateDaysRemaining("2024-03-11", "2024-03-08", true), 1, "Days remaining should count working days");
+    const officeTask: UpkeepTask = { file: mockFile, last_done: "2024-03-07", interval: 5, interval_unit: "days", working_days: true };
+    const officeStatus = RecurringUpkeepUtils.determineTaskStatus(officeTask, "2024-03-08");
+    assertEqual(officeStatus.calculatedNextDue, "2024-03-14", "Tasks with working_days should use working days");
+    assertEqual(officeStatus.daysRemaining, 4, "Tasks with working_days should count working days remaining");
+    assertEqual(I18nUtils.formatRelativeDate("2024-03-19", "2024-03-08", true), "in 6 working days", "Relative dates should count working days");
+    assertEqual(WorkCalendar.parse("Holidays\n- 2024-05-01 Labour Day\n- 2024-10-03").dates.join(), "2024-05-01,2024-10-03", "Holiday notes should list their dates");
+    const ics = "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20241225\r\nRRULE:FREQ=YEARLY\r\nEND:VEVENT\r\nBEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20240401\r\nEND:VEVENT\r\nEND:VCALENDAR";
+    const icsHolidays = WorkCalendar.parse(ics);
+    assertEqual(`${icsHolidays.dates.join()}|${icsHolidays.yearly.join()}`, "2024-04-01|12-25", "ICS files should give dates and yearly holidays");
+    WorkCalendar.setHolidays([]);
+
+    // Test 27: Time zones and DST transitions
+    console.log("\n🌐 Test 27: Time zones");
+    const wallClock = (instant: string, zone: string) => DateUtils.toDateTimeString(DateUtils.inTimeZone(new Date(instant), zone));
+    const zoneMatrix: [string, string, string, string][] = [
+      ["2024-03-10T03:30:00Z", "America/New_York", "2024-03-09T22:30", "Evenings west of UTC should stay on the local day"],
+      ["2024-03-09T16:00:00Z", "Asia/Tokyo", "2024-03-10T01:00", "Mornings east of UTC should already be the next local day"],
+      ["2024-03-10T06:59:00Z", "America/New_York", "2024-03-10T01:59", "US spring forward: last minute of standard time"],
+      ["2024-03-10T07:00:00Z", "America/New_York", "2024-03-10T03:00", "US spring forward: first minute of daylight time"],
+      ["2024-03-31T00:59:00Z", "Europe/Berlin", "2024-03-31T01:59", "EU spring forward: last minute of standard time"],
+      ["2024-03-31T01:00:00Z", "Europe/Berlin", "2024-03-31T03:00", "EU spring forward: first minute of summer time"],
+      ["2024-10-27T00:30:00Z", "Europe/Berlin", "2024-10-27T02:30", "EU fall back: first pass through the repeated hour"],
+      ["2024-10-27T01:30:00Z", "Europe/Berlin", "2024-10-27T02:30", "EU fall back: second pass through the repeated hour"],
+      ["2024-10-05T15:59:00Z", "Australia/Sydney", "2024-10-06T01:59", "Southern hemisphere spring forward: before"],
+      ["2024-10-05T16:00:00Z", "Australia/Sydney", "2024-10-06T03:00", "Southern hemisphere spring forward: after"],
+      ["2024-11-03T05:30:00Z", "America/New_York", "2024-11-03T01:30", "US fall back"]
+    ];
+    for (const [instant, zone, expected, description] of zoneMatrix) {
+      assertEqual(wallClock(instant, zone), expected, description);
+    }
+    assertEqual(DateUtils.isValidTimeZone("Europe/Berlin"), true, "IANA time zones should be accepted");
+    assertEqual(DateUtils.isValidTimeZone("Mars/Olympus_Mons"), false, "Unknown time zones should be rejected");
+    assertEqual(wallClock("2024-03-10T03:30:00Z", "Mars/Olympus_Mons"), DateUtils.toDateTimeString(new Date("2024-03-10T03:30:00Z")), "Unknown time zones should fall back to the device zone");
+    const dstDays: [string, string, number][] = [
+      ["2024-03-09", "2024-03-11", 2], ["2024-03-30", "2024-04-01", 2], ["2024-10-26", "2024-10-28", 2], ["2024-11-02", "2024-11-04", 2]
+    ];
+    for (const [from, to, days] of dstDays) {
+      assertEqual(DateUtils.calculateDaysRemaining(to, from), days, `Days remaining from ${from} to ${to} should not depend on DST`);
+    }
+    assertEqual(DateUtils.calculateNextDueDate("2024-10-26", 1, "days"), "2024-10-27", "Day steps should land on the next date across DST");
+    assertEqual(DateUtils.isToday("2024-10-27", "2024-10-27"), true, "DST days should still be today");
+    assertEqual(DateUtils.parseLocalDate(new Date(2024, 2, 10, 23, 30)).getDate(), 10, "Dates late in the evening should keep their local day");
+    assertEqual(DateUtils.calculateTimeRemaining("2024-03-31T04:00", "2024-03-31T01:00"), 0.125, "Time remaining should count wall-clock hours");
+    // Displayed dates are local dates too; parsed as UTC midnight they show the day before west of UTC
+    const tooltip = { title: "", classList: { add: () => undefined } } as unknown as HTMLElement;
+    const displayMatrix: [string, string, string, string, string][] = [
+      ["2026-10-20T05:30:00Z", "America/Los_Angeles", "2026-10-22", "on Thursday", "Due: Thu, Oct 22, 2026 (3 days)"],
+      ["2026-10-20T09:30:00Z", "Pacific/Honolulu", "2026-10-22", "on Thursday", "Due: Thu, Oct 22, 2026 (3 days)"],
+      ["2024-03-10T03:30:00Z", "America/New_York", "2024-03-10", "tomorrow", "Due: Sun, Mar 10, 2024 (1 day)"],
+      ["2024-11-03T05:30:00Z", "America/New_York", "2024-11-01", "2 days ago", "Due: Fri, Nov 1, 2024 (2 days ago)"],
+      ["2024-03-31T00:59:00Z", "Europe/Berlin", "2024-04-02", "on Tuesday", "Due: Tue, Apr 2, 2024 (2 days)"]
+    ];
+    for (const [instant, zone, due, relative, title] of displayMatrix) {
+      const today = DateUtils.toDateString(DateUtils.inTimeZone(new Date(instant), zone));
+      assertEqual(I18nUtils.formatRelativeDate(due, today), relative, `${zone}: ${due} should read "${relative}" on ${today}`);
+      I18nUtils.addDateTooltip(tooltip, due, undefined, today);
+      assertEqual(tooltip.title, title, `${zone}: the tooltip for ${due} should name its own weekday`);
+    }
+    assertEqual(I18nUtils.formatRelativeDate("2026-10-26", "2026-10-19", true), "in 5 working days", "Working days should be counted between local dates");
+
+    // Test 28: Flexible windows
+    console.log("\n🪴 Test 28: Flexible windows");
+    const repotTask = TaskSchema.toTask(mockFile, { tags: ["recurring-task"], last_done: "2024-01-15", interval_min: 12, interval_max: 18, interval_unit: "months" }, ["recurring-task"])!;
+    assertEqual(repotTask.interval, 18, "Windows should be due by their upper bound");
+    const notYetDue = RecurringUpkeepUtils.determineTaskStatus(repotTask, "2024-06-01");
+    assertEqual(`${notYetDue.state} ${notYetDue.windowOpens} ${notYetDue.calculatedNextDue}`, "up-to-date 2025-01-15 2025-07-15", "Before the window opens the task is not yet due");
+    const inWindow = RecurringUpkeepUtils.determineTaskStatus(repotTask, "2025-03-01");
+    assertEqual(inWindow.state, "in-window", "Between the bounds the task is in its window");
+    assertEqual(RecurringUpkeepUtils.canComplete({ ...repotTask, ...inWindow }, "2025-03-01"), true, "Tasks in their window can be completed");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(repotTask, "2025-07-16").state, "overdue", "After the upper bound the task is overdue");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(repotTask, "2025-01-15").state, "in-window", "The window opens on its lower bound");
+    assertEqual(RecurringUpkeepUtils.getFrequencyDescription(repotTask.interval, repotTask.interval_unit, repotTask), "Every 12–18 months", "Window frequency text");
+    assertEqual(FlexibleWindow.parse({ interval_min: 3, interval_max: 2, interval_unit: "months" }), null, "Windows need interval_min ≤ interval_max");
+    const windowTasks = TaskProcessor.processTasks([repotTask, weeklyTask], "2025-03-01");
+    assertEqual(FilterParser.apply(windowTasks, FilterParser.parse("status:in-window")).length, 1, "status:in-window should list open windows");
+
+    // Test 29: Several schedules in one note
+    console.log("\n🚲 Test 29: Several schedules in one note");
+    const bikeTasks = TaskSchema.toTasks(mockFile, {
+      tags: ["recurring-task"],
+      schedules: [
+        { name: "Tire pressure", last_done: "2024-03-01", interval: 2, interval_unit: "weeks" },
+        { last_done: "2024-01-10", interval: 6, interval_unit: "months" },
+        "not a schedule"
+      ]
+    }, ["recurring-task"]);
+    assertEqual(bikeTasks.map(task => `${task.schedule_index}:${task.schedule_name}`).join(","), "0:Tire pressure,1:#2", "Each schedule entry should become a named task");
+    assertEqual(TaskSchema.taskKey(bikeTasks[1]), `${mockFile.path}#1`, "Schedule tasks should be keyed by path and position");
+    assertEqual(TaskSchema.taskKey(weeklyTask), weeklyTask.file.path, "Single tasks should be keyed by path");
+    assertEqual(TaskSchema.toTasks(mockFile, { last_done: "2024-01-01", interval: 7, interval_unit: "days" }, []).length, 1, "Notes without schedules should stay one task");
+    const bikeHistory = "## Completion history: Tire pressure\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | 14 | me | Completed |\n\n## Completion history: Chain lube\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-02 | 10:00 | - | - | me | Completed at 300 km |\n| 2024-03-09 | 10:00 | - | - | me | Completed at 600 km |";
+    assertEqual(RecurringUpkeepUtils.countCompletions(bikeHistory, "Chain lube"), 2, "Each schedule should count its own history");
+    assertEqual(RecurringUpkeepUtils.countCompletions(bikeHistory, "Tire pressure"), 1, "Schedule history sections should not mix");
+    assertEqual(RecurringUpkeepUtils.countCompletions(bikeHistory), 0, "Schedule sections are not the note's own history");
+
+    // Test 30: Undoing a completion
+    console.log("\n↩️ Test 30: Undoing a completion");
+    const historyRow = "| 2024-03-10 | 10:00 | 9 | 7 | me | Completed |";
+    const beforeRow = "# Task\n\n## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | 7 | me | Completed |";
+    assertEqual(RecurringUpkeepUtils.removeHistoryText(`${beforeRow}\n${historyRow}\n\nNotes`, historyRow, false), `${beforeRow}\n\nNotes`, "Undo should remove the completion's row");
+    const createdSection = `\n\n## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n${historyRow}`;
+    assertEqual(RecurringUpkeepUtils.removeHistoryText(`# Task${createdSection}`, createdSection, true), "# Task", "Undo should remove a history section the completion created");
+    assertEqual(RecurringUpkeepUtils.removeHistoryText(`# Task${createdSection}\n| 2024-03-11 | 09:00 | - | - | me | Skipped |`, createdSection, true), `# Task${createdSection.replace(`\n${historyRow}`, "")}\n| 2024-03-11 | 09:00 | - | - | me | Skipped |`, "A section with later rows should only lose the completion's row");
+    assertEqual(RecurringUpkeepUtils.removeHistoryText("# Task", historyRow, false), "# Task", "Missing rows should leave the note alone");
+    assertEqual(RecurringUpkeepUtils.getUndoableCompletion("Missing.md"), null, "Tasks never completed this session have nothing to undo");
+
+    // Test 31: Backdated completions
+    console.log("\n📅 Test 31: Backdated completions");
+    const datedHistory = "## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | 7 | me | Completed |\n| 2024-03-05 | 09:00 | - | - | me | Skipped: away |\n| 2024-03-11 | 10:00 | 10 | 7 | me | Completed |\n\nNotes";
+    const backdated = RecurringUpkeepUtils.insertCompletionInOrder(datedHistory, ["## Completion history"], "| 2024-03-06 | 10:00 | - | 7 | me | Completed |");
+    assertEqual(backdated.row, "| 2024-03-06 | 10:00 | 5 | 7 | me | Completed |", "Backdated rows should count from the completion before them");
+    const backdatedLines = backdated.content.split("\n");
+    assertEqual(backdatedLines[5], "| 2024-03-05 | 09:00 | - | - | me | Skipped: away |", "Backdated rows should go after earlier rows");
+    assertEqual(backdatedLines[6], backdated.row, "Backdated rows should go before later rows");
+    assertEqual(backdatedLines[7], "| 2024-03-11 | 10:00 | 5 | 7 | me | Completed |", "The next completion should be recounted from the backdated one");
+    const oldest = RecurringUpkeepUtils.insertCompletionInOrder(datedHistory, ["## Completion history"], "| 2024-02-20 | 08:00 | - | 7 | me | Completed |");
+    assertEqual(oldest.content.split("\n")[4], oldest.row, "The oldest completion should go first");
+    assertEqual(RecurringUpkeepUtils.removeHistoryText(backdated.content, backdated.row, false).includes("2024-03-06"), false, "Backdated completions can be undone");
+    assertEqual(backdated.recounted?.original, "| 2024-03-11 | 10:00 | 10 | 7 | me | Completed |", "The recounted completion should keep its original row for undo");
+    assertEqual(RecurringUpkeepUtils.removeHistoryText(backdated.content, backdated.row, false, backdated.recounted), datedHistory, "Undoing a backdated completion should restore the next completion's days since last");
+    assertEqual(oldest.recounted?.updated, "| 2024-03-01 | 10:00 | 10.08 | 7 | me | Completed |", "The first completion should be recounted from an older one");
+    const reorderedHistory = "## Completion history\n\n| Action | Date | Time | Days since last |\n|---|---|---|---|\n| Completed | 2024-03-01 | 10:00 | - |\n| Completed | 2024-03-11 | 10:00 | 10 |";
+    const reordered = RecurringUpkeepUtils.insertCompletionInOrder(reorderedHistory, ["## Completion history"], "| Completed | 2024-03-06 | 10:00 | - |");
+    assertEqual(reordered.row, "| Completed | 2024-03-06 | 10:00 | 5 |", "Days since last should be found by its header");
+    assertEqual(reordered.content.split("\n")[6], "| Completed | 2024-03-11 | 10:00 | 5 |", "Reordered tables should be recounted in the right column");
+
+    // Test 32: Completion notes and measurements
+    console.log("\n📝 Test 32: Completion notes and measurements");
+    assertEqual(TaskSchema.recordFields({ record: ["front_bar", " rear_bar "] }).join(","), "front_bar,rear_bar", "Record fields should come from a list");
+    assertEqual(TaskSchema.recordFields({ record: "filter, cost" }).join(","), "filter,cost", "Record fields should come from a comma-separated string");
+    assertEqual(TaskSchema.recordFields({}).length, 0, "Tasks without record fields ask for nothing");
+    const plainHistory = "## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action |\n|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | 7 | me | Completed |";
+    const widenedLines = RecurringUpkeepUtils.addHistoryColumns(plainHistory, ["## Completion history"], ["front_bar", "Note"]).split("\n");
+    assertEqual(widenedLines[2], "| Date | Time | Days since last | Days scheduled | User | Action | front_bar | Note |", "Missing history columns should be added to the header");
+    assertEqual(widenedLines[3], "|---|---|---|---|---|---|------|------|", "The separator should grow with the header");
+    assertEqual(widenedLines[4], "| 2024-03-01 | 10:00 | - | 7 | me | Completed |", "Older rows should keep their cells");
+    assertEqual(RecurringUpkeepUtils.addHistoryColumns(widenedLines.join("\n"), ["## Completion history"], ["front_bar"]), widenedLines.join("\n"), "Existing columns should not be added twice");
+    const rowValues = { date: "2024-03-10", time: "09:00", daysSinceLast: "9", daysScheduled: "7", user: "me", action: "Completed" };
+    assertEqual(RecurringUpkeepUtils.formatHistoryRow(CompletionHistoryParser.cells(widenedLines[2]), rowValues, { front_bar: "2.4" }), "| 2024-03-10 | 09:00 | 9 | 7 | me | Completed | 2.4 |  |", "New rows should fill the standard columns and measurements by header");
+    assertEqual(RecurringUpkeepUtils.formatHistoryRow(["Aktion", "Datum", "Notiz", "Zeit"], rowValues, { Notiz: "Öl" }), "| Completed | 2024-03-10 | Öl | 09:00 |", "Reordered and narrower tables should get each value under its own header");
+
+    // Test 33: Parsing the completion history
+    console.log("\n📜 Test 33: Parsing the completion history");
+    const englishEntries = CompletionHistoryParser.parse("# Note\n\n## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action | front_bar | Note |\n|---|---|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | - | 7 | me | Completed | 2,4 | Topped up |\n| 2024-3-9 | | 8 | 7 | - | Skipped: away \\| travelling |  |  |\n| not a date | | | | | | | |\n\n## Notes");
+    assertEqual(englishEntries.length, 2, "Rows without a readable date should be left out");
+    assertEqual(englishEntries[0].line, 6, "Entries should know their line in the note");
+    assertEqual(englishEntries[0].timestamp, "2024-03-01T10:00", "Date and time should form a timestamp");
+    assertEqual(englishEntries[0].note, "Topped up", "The note column should be read");
+    assertEqual(englishEntries[0].fields.front_bar, "2,4", "Extra columns should be kept by header");
+    assertEqual(englishEntries[1].date, "2024-03-09", "Hand-written dates should be normalized");
+    assertEqual(englishEntries[1].time, null, "A missing time should be null");
+    assertEqual(englishEntries[1].action, "skipped", "Skip rows should be recognized");
+    assertEqual(englishEntries[1].user, null, "A dash user should be null");
+    assertEqual(CompletionHistoryParser.cells("| 2024-03-01 | Skipped: a \\| b | \\ |").join("/"), "2024-03-01/Skipped: a \\| b/\\", "Escaped pipes should stay inside their cell");
+    assertEqual(CompletionHistoryParser.cells("| 2024-03-01 | 10:00 | Completed").join("/"), "2024-03-01/10:00/Completed", "Rows without a trailing pipe should keep their last cell");
+    const openEntries = CompletionHistoryParser.parse("## Completion history\n\n| Date | Time | Action\n|---|---|---\n| 2024-03-01 | 10:00 | Skipped: away");
+    assertEqual(openEntries.map(entry => `${entry.timestamp} ${entry.action}`).join(), "2024-03-01T10:00 skipped", "Tables without trailing pipes should be read by header");
+    const germanEntries = CompletionHistoryParser.parse("## Erledigungsverlauf: Kette\n\n| Aktion | Datum | Zeit | Tage seit letztem |\n|---|---|---|---|\n| Erledigt | 2024-05-02 | 8:30 | 3,5 |\n| Pausiert | 2024-05-04 | 09:00 | - |", "Kette");
+    assertEqual(germanEntries.length, 2, "German tables of a named schedule should be parsed");
+    assertEqual(germanEntries[0].time, "08:30", "Reordered columns should be found by header");
+    assertEqual(germanEntries[0].daysSinceLast, 3.5, "Decimal commas should be read");
+    assertEqual(germanEntries[1].action, "paused", "German actions should be recognized");
+    assertEqual(CompletionHistoryParser.parse("## Completion history\n\n| Date | Time |\n|---|---|\n| 2024-01-01 10:00 | |")[0].time, "10:00", "A time in the date cell should be read");
+    assertEqual(CompletionHistoryParser.parseAction(""), "completed", "Rows without an action count as completions");
+    assertEqual(CompletionHistoryParser.parseAction("Snooze cancelled"), "snooze-cancelled", "Cancelled snoozes should not count as snoozes");
+    assertEqual(CompletionHistoryParser.parseActionText("Erledigt bei 300 km").reading, "300 km", "Meter readings should be read in any locale");
+    assertEqual(CompletionHistoryParser.parseActionText("Skipped: at the cottage").reason, "at the cottage", "Skip reasons should be kept as written");
+    assertEqual(CompletionHistoryParser.parseActionText("Zurückgestellt bis 2024-03-08").until, "2024-03-08", "Snoozes should keep their end date");
+    assertEqual(CompletionHistoryParser.parseActionText("Filter swapped").text, "Filter swapped", "Unknown actions should keep their text");
+
+    // Test 34: History storage backends
+    console.log("\n🗄️ Test 34: History storage backends");
+    assertEqual(HistoryStore.sidecarPath("Chores/Filter.md"), "Chores/Filter.history.md", "Sidecar notes should sit next to the task note");
+    assertEqual(HistoryStore.usesTables("sidecar") && HistoryStore.usesTables("table") && !HistoryStore.usesTables("log"), true, "Only the table storages should keep Markdown tables");
+    const listItems: HistoryItem[] = [
+      { date: "2024-03-01T10:00", days_since_last: null, days_scheduled: 14, user: null, action: "completed" },
+      { date: "2024-03-05T09:00", days_since_last: null, days_scheduled: null, user: null, action: "snoozed", until: "2024-03-08" },
+      { date: "2024-03-15T10:00", days_since_last: 14, days_scheduled: 14, user: null, action: "completed", reading: "1250 km" }
+    ];
+    const orderedItems = HistoryStore.insertInOrder(listItems, { date: "2024-03-08T10:00", days_since_last: null, days_scheduled: 14, user: null, action: "completed" });
+    assertEqual(orderedItems.map(item => item.date.slice(5, 10)).join(","), "03-01,03-05,03-08,03-15", "Backdated entries should go in date order");
+    assertEqual(orderedItems[2].days_since_last, 7, "Backdated entries should count from the completion before them");
+    assertEqual(orderedItems[3].days_since_last, 7, "The completion after a backdated entry should be recounted");
+    assertEqual(listItems[2].days_since_last, 14, "Inserting should leave the original entries untouched");
+    const tableItem = HistoryStore.fromEntry(CompletionHistoryParser.parse("## Completion history\n\n| Date | Time | Days since last | Days scheduled | User | Action | front_bar | Note |\n|---|---|---|---|---|---|---|---|\n| 2024-03-01 | 10:00 | 2 | 7 | me | Skipped: away \\| travelling | 2.4 | Ok |")[0]);
+    assertEqual(`${tableItem.action}: ${tableItem.reason}`, "skipped: away | travelling", "Table actions should become a key and an unescaped reason");
+    assertEqual(HistoryStore.measurements(tableItem).front_bar, "2.4", "Extra columns should become measurements");
+    const sectionText = RecurringUpkeepUtils.formatHistorySection([tableItem, listItems[2]], "Chain");
+    const roundTrip = CompletionHistoryParser.parse(sectionText, "Chain");
+    assertEqual(roundTrip.length, 2, "Entries written as a table should parse back");
+    assertEqual(roundTrip[0].actionText, "Skipped: away \\| travelling", "Pipes should be escaped in the table");
+    assertEqual(roundTrip[1].actionText, "Completed at 1250 km", "Actions should be worded in the current language");
+    assertEqual(roundTrip[0].note, "Ok", "Notes should get their own column");
+    assertEqual(roundTrip[1].fields.front_bar, undefined, "Entries without a measurement should leave its cell empty");
+    const noteWithHistory = "# Filter\n\nText\n\n## Completion history\n\n| Date | Time |\n|---|---|\n| 2024-01-01 | 10:00 |\n\n## Notes\nMore";
+    assertEqual(RecurringUpkeepUtils.replaceHistorySection(noteWithHistory, ["## Completion history"], ""), "# Filter\n\nText\n\n## Notes\nMore", "Removing the history should keep the rest of the note");
+    assertEqual(RecurringUpkeepUtils.replaceHistorySection(noteWithHistory, ["## Completion history"], "## Completion history\n\n| Date |\n|---|"), "# Filter\n\nText\n\n## Completion history\n\n| Date |\n|---|\n\n## Notes\nMore", "Replacing the history should keep its place");
+    assertEqual(RecurringUpkeepUtils.replaceHistorySection("# Filter\n", ["## Completion history"], "## Completion history"), "# Filter\n\n## Completion history", "A missing section should be appended");
+
+    // Test 35: Early completions of calendar-bound tasks
+    console.log("\n⏩ Test 35: Early completions");
+    const binTask: UpkeepTask = { file: mockFile, last_done: "2026-10-19", interval: 1, interval_unit: "weeks", on: "tuesday" };
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(binTask), "2026-10-27", "A weekday task done the day before should count for that day");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...binTask, last_done: "2026-10-14" }), "2026-10-20", "A completion after the occurrence should not skip the next one");
+    const quarterlyTask: UpkeepTask = { file: mockFile, last_done: "2026-01-10", interval: 3, interval_unit: "months", on: "15", anchor_date: "2026-01-15" };
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(quarterlyTask), "2026-04-15", "A quarterly task done days ahead should count for that quarter");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...quarterlyTask, last_done: "2025-12-01" }), "2026-01-15", "A completion long before the occurrence should not count for it");
+    const anchoredTask: UpkeepTask = { file: mockFile, last_done: "2026-02-27", interval: 1, interval_unit: "months", schedule: "fixed", anchor_date: "2026-01-01" };
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue(anchoredTask), "2026-04-01", "Fixed schedules should count early completions too");
+    assertEqual(RecurringUpkeepUtils.determineTaskStatus(binTask, "2026-10-19").state, "up-to-date", "An early completion should leave the task up to date");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...binTask, on: "monday, thursday", last_done: "2026-10-19" }), "2026-10-22", "Close occurrences should not be skipped");
+    assertEqual(RecurringUpkeepUtils.calculateTaskNextDue({ ...binTask, interval_unit: "weeks", on: undefined }), "2026-10-26", "Rolling schedules should be unaffected");
+
     // Summary
     console.log("\n📊 Test Results Summary");
     console.log("================================================");
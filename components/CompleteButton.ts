@@ -1,8 +1,11 @@
-import { App, TFile } from 'obsidian';
-import { ProcessedTask } from '../types';
+import { App, Notice, TFile } from 'obsidian';
+import { ProcessedTask, CompletionDetails } from '../types';
 import { RecurringUpkeepUtils } from '../utils/RecurringUpkeepUtils';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { TaskStyling } from '../utils/TaskStyling';
+import { TaskSchema } from '../utils/TaskSchema';
+import { TaskActionsMenu } from './TaskActionsMenu';
+import { CompletionModal } from './CompletionModal';
 
 export class CompleteButton {
   private app: App;
@@ -20,38 +23,54 @@ export class CompleteButton {
       cls: `recurring-upkeep-button task-complete-btn ${buttonClass}`
     });
 
-    button.addEventListener('click', async () => {
-      // Set loading state with semantic class
-      button.textContent = I18nUtils.t.ui.messages.loading;
-      button.disabled = true;
-      button.className = "recurring-upkeep-button";
-
-      const result = await RecurringUpkeepUtils.markTaskComplete(this.app, task.file.path);
+    button.addEventListener('click', () => {
+      // Tasks with `record` fields ask for their measurements first
+      const fields = TaskSchema.recordFields(task);
+      if (fields.length > 0) {
+        new CompletionModal(this.app, fields, details => this.complete(button, task, onComplete, details)).open();
+      } else {
+        this.complete(button, task, onComplete);
+      }
+    });
+  }
 
-      if (result.success) {
-        // File change will automatically trigger UI updates via metadataCache event
-        // No manual notification needed!
+  private async complete(button: HTMLButtonElement, task: ProcessedTask, onComplete?: () => void, details?: CompletionDetails): Promise<void> {
+    // Set loading state with semantic class
+    button.textContent = I18nUtils.t.ui.messages.loading;
+    button.disabled = true;
+    button.className = "recurring-upkeep-button";
 
-        if (onComplete) {
-          onComplete();
-        }
+    const result = await RecurringUpkeepUtils.markTaskComplete(this.app, task.file.path, task.schedule_index, undefined, details);
 
-        // Immediately remove button after successful completion
-        button.remove();
-      } else {
-        // Error state
-        button.textContent = "❌ " + I18nUtils.t.ui.messages.error(result.error || "Unknown error");
-        button.className = "recurring-upkeep-button recurring-upkeep-button-error";
+    if (result.success) {
+      // File change will automatically trigger UI updates via metadataCache event
+      // The notice is only there to take back a misclick
+      if (result.completion) {
+        new TaskActionsMenu(this.app).showUndoNotice(result.completion, I18nUtils.t.ui.messages.completed(result.completion.taskName));
+      }
+      if (result.historyError) {
+        new Notice(result.historyError);
+      }
 
-        setTimeout(() => {
-          // Reset to original state
-          button.textContent = I18nUtils.t.ui.buttons.markComplete;
-          const resetButtonClass = this.getButtonClass(task);
-          button.className = `recurring-upkeep-button task-complete-btn ${resetButtonClass}`;
-          button.disabled = false;
-        }, 3000);
+      if (onComplete) {
+        onComplete();
       }
-    });
+
+      // Immediately remove button after successful completion
+      button.remove();
+    } else {
+      // Error state
+      button.textContent = "❌ " + I18nUtils.t.ui.messages.error(result.error || "Unknown error");
+      button.className = "recurring-upkeep-button recurring-upkeep-button-error";
+
+      setTimeout(() => {
+        // Reset to original state
+        button.textContent = I18nUtils.t.ui.buttons.markComplete;
+        const resetButtonClass = this.getButtonClass(task);
+        button.className = `recurring-upkeep-button task-complete-btn ${resetButtonClass}`;
+        button.disabled = false;
+      }, 3000);
+    }
   }
 
   /**
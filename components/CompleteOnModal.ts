@@ -0,0 +1,72 @@
+import { App, Modal } from 'obsidian';
+import { I18nUtils } from '../i18n/I18nUtils';
+import { DateUtils } from '../utils/DateUtils';
+
+/**
+ * Asks when a task was done, for "Completed on…"; only dates and times up to now are accepted
+ */
+export class CompleteOnModal extends Modal {
+  private onSubmit: (completedAt: string) => void;
+
+  constructor(app: App, onSubmit: (completedAt: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const t = I18nUtils.t;
+    const { contentEl } = this;
+    const [today, now] = DateUtils.currentTimestamp().split('T');
+
+    this.titleEl.setText(t.ui.completeOnModal.title);
+
+    const dateInput = contentEl.createEl('input', {
+      type: 'date',
+      cls: 'recurring-upkeep-date-input',
+      attr: { max: today, 'aria-label': t.ui.completeOnModal.date }
+    });
+    dateInput.value = today;
+
+    const timeInput = contentEl.createEl('input', {
+      type: 'time',
+      cls: 'recurring-upkeep-time-input',
+      attr: { 'aria-label': t.ui.completeOnModal.time }
+    });
+    timeInput.value = now;
+
+    const error = contentEl.createEl('div', { cls: 'recurring-upkeep-date-error' });
+
+    const buttonRow = contentEl.createEl('div', { cls: 'modal-button-container' });
+    const confirmButton = buttonRow.createEl('button', {
+      text: t.ui.completeOnModal.confirm,
+      cls: 'mod-cta'
+    });
+
+    const submit = () => {
+      // Local timestamps compare correctly as strings
+      const completedAt = `${dateInput.value}T${timeInput.value || '00:00'}`;
+      if (!dateInput.value || completedAt > DateUtils.currentTimestamp()) {
+        error.setText(t.ui.completeOnModal.futureDate);
+        return;
+      }
+      this.close();
+      this.onSubmit(completedAt);
+    };
+
+    confirmButton.addEventListener('click', submit);
+    for (const input of [dateInput, timeInput]) {
+      input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') {
+          event.preventDefault();
+          submit();
+        }
+      });
+    }
+
+    dateInput.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
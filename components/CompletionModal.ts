@@ -0,0 +1,66 @@
+import { App, Modal } from 'obsidian';
+import { CompletionDetails } from '../types';
+import { I18nUtils } from '../i18n/I18nUtils';
+
+/**
+ * Asks for the task's `record` measurements and an optional note before completing it
+ */
+export class CompletionModal extends Modal {
+  private fields: string[];
+  private onSubmit: (details: CompletionDetails) => void;
+
+  constructor(app: App, fields: string[], onSubmit: (details: CompletionDetails) => void) {
+    super(app);
+    this.fields = fields;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const t = I18nUtils.t;
+    const { contentEl } = this;
+
+    this.titleEl.setText(t.ui.completionModal.title);
+
+    const inputs = this.fields.map(field => {
+      const label = contentEl.createEl('label', { text: field, cls: 'recurring-upkeep-completion-label' });
+      return { field, input: label.createEl('input', { type: 'text', cls: 'recurring-upkeep-completion-input' }) };
+    });
+
+    const noteLabel = contentEl.createEl('label', { text: t.ui.completionModal.note, cls: 'recurring-upkeep-completion-label' });
+    const note = noteLabel.createEl('textarea', {
+      cls: 'recurring-upkeep-completion-note',
+      attr: { placeholder: t.ui.completionModal.notePlaceholder }
+    });
+
+    const buttonRow = contentEl.createEl('div', { cls: 'modal-button-container' });
+    const confirmButton = buttonRow.createEl('button', {
+      text: t.ui.completionModal.confirm,
+      cls: 'mod-cta'
+    });
+
+    const submit = () => {
+      const measurements: Record<string, string> = {};
+      for (const { field, input } of inputs) {
+        measurements[field] = input.value.trim();
+      }
+      this.close();
+      this.onSubmit({ measurements, note: note.value.trim() });
+    };
+
+    confirmButton.addEventListener('click', submit);
+    for (const { input } of inputs) {
+      input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') {
+          event.preventDefault();
+          submit();
+        }
+      });
+    }
+
+    (inputs[0]?.input ?? note).focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,67 @@
+import { App, Modal } from 'obsidian';
+import { I18nUtils } from '../i18n/I18nUtils';
+import { RecurringUpkeepUtils } from '../utils/RecurringUpkeepUtils';
+
+/**
+ * Asks for a future date, e.g. for "Snooze until…" or "Pause until…"; only dates after today are accepted
+ */
+export class DatePickerModal extends Modal {
+  private title: string;
+  private confirmText: string;
+  private onSubmit: (date: string) => void;
+  private initialDate: string;
+
+  constructor(app: App, title: string, confirmText: string, onSubmit: (date: string) => void, initialDate?: string) {
+    super(app);
+    this.title = title;
+    this.confirmText = confirmText;
+    this.onSubmit = onSubmit;
+    this.initialDate = initialDate || RecurringUpkeepUtils.getSnoozeDate(7);
+  }
+
+  onOpen(): void {
+    const t = I18nUtils.t;
+    const { contentEl } = this;
+
+    this.titleEl.setText(this.title);
+
+    const input = contentEl.createEl('input', {
+      type: 'date',
+      cls: 'recurring-upkeep-date-input',
+      attr: { min: RecurringUpkeepUtils.getSnoozeDate(1) }
+    });
+    input.value = this.initialDate;
+
+    const error = contentEl.createEl('div', { cls: 'recurring-upkeep-date-error' });
+
+    const buttonRow = contentEl.createEl('div', { cls: 'modal-button-container' });
+    const confirmButton = buttonRow.createEl('button', {
+      text: this.confirmText,
+      cls: 'mod-cta'
+    });
+
+    const submit = () => {
+      // ISO dates compare correctly as strings
+      if (!input.value || input.value <= RecurringUpkeepUtils.getSnoozeDate(0)) {
+        error.setText(t.ui.snoozeModal.invalidDate);
+        return;
+      }
+      this.close();
+      this.onSubmit(input.value);
+    };
+
+    confirmButton.addEventListener('click', submit);
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        submit();
+      }
+    });
+
+    input.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
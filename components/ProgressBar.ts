@@ -9,7 +9,7 @@ export class ProgressBar {
   }
 
   render(container: HTMLElement, task: ProcessedTask, now?: string): void {
-    const currentTime = now || new Date().toISOString().split('T')[0];
+    const currentTime = now || DateUtils.today();
 
     const wrapper = container.createEl('div', {
       cls: 'recurring-upkeep-progress-wrapper'
@@ -31,35 +31,107 @@ export class ProgressBar {
     progress.setAttribute('data-width', percentage.toString());
     progress.addClasses([colorClass]);
     progress.title = tooltip;
+
+    this.renderWindow(wrapper, task, currentTime);
+  }
+
+  /**
+   * Band marking a flexible window, from interval_min to interval_max after the last completion
+   */
+  private renderWindow(wrapper: HTMLElement, task: ProcessedTask, currentTime: string): void {
+    const scheduleBase = RecurringUpkeepUtils.getScheduleBase(task, currentTime);
+    if (!task.windowOpens || !task.calculatedNextDue || !scheduleBase) {
+      return;
+    }
+
+    // Same scale as the bar: the cycle runs to the due date plus any grace period
+    const start = DateUtils.parseLocalDateTime(scheduleBase);
+    const dueMs = DateUtils.wallClockDiff(start, DateUtils.parseLocalDateTime(task.calculatedNextDue));
+    const opensMs = DateUtils.wallClockDiff(start, DateUtils.parseLocalDateTime(task.windowOpens));
+    const cycleMs = dueMs + task.graceDays * 1000 * 60 * 60 * 24;
+    if (!(cycleMs > 0)) {
+      return;
+    }
+
+    const toPercentage = (ms: number) => Math.max(0, Math.min(100, (ms / cycleMs) * 100));
+    const band = wrapper.createEl('div', {
+      cls: 'recurring-upkeep-progress-window'
+    });
+    band.style.setProperty('--window-start', `${toPercentage(opensMs)}%`);
+    band.style.setProperty('--window-width', `${toPercentage(dueMs) - toPercentage(opensMs)}%`);
   }
 
   private calculatePercentage(task: ProcessedTask, currentTime: string): number {
-    if (!task.last_done) {
+    // Usage-based tasks fill up with their meter while it decides the status
+    if (task.dueByMeter && typeof task.meterRemaining === 'number') {
+      const meterInterval = Number(task.meter_interval);
+      return Math.max(0, Math.min(100, ((meterInterval - task.meterRemaining) / meterInterval) * 100));
+    }
+
+    // Skipped occurrences restart the cycle just like completions
+    const scheduleBase = RecurringUpkeepUtils.getScheduleBase(task, currentTime);
+    if (!scheduleBase) {
       return 0; // Never completed
     }
 
-    if (DateUtils.isToday(task.last_done, currentTime)) {
-      return 100; // Completed today
+    // Hour and minute tasks fill up by the minute rather than by the day
+    if (DateUtils.isSubDayUnit(task.interval_unit) && !RecurringUpkeepUtils.followsCalendar(task)) {
+      const cycleMs = (RecurringUpkeepUtils.calculateIntervalInDays(task.interval, task.interval_unit) + task.graceDays) * 1000 * 60 * 60 * 24;
+      const elapsedMs = DateUtils.resolveNow(currentTime).getTime() - DateUtils.parseLocalDateTime(scheduleBase).getTime();
+      return isNaN(elapsedMs) ? 50 : Math.max(0, Math.min(100, (elapsedMs / cycleMs) * 100));
     }
 
-    // Calculate percentage based on days since last done
-    const intervalInDays = RecurringUpkeepUtils.calculateIntervalInDays(
-      task.interval,
-      task.interval_unit
-    );
+    if (DateUtils.isToday(scheduleBase, currentTime)) {
+      return 100; // Completed today
+    }
 
-    const lastDoneDate = DateUtils.parseLocalDate(task.last_done);
     const today = DateUtils.parseLocalDate(currentTime);
+    const cycle = this.getCycle(task, scheduleBase);
 
-    if (isNaN(lastDoneDate.getTime()) || isNaN(today.getTime())) {
+    if (!cycle || isNaN(today.getTime())) {
       return 50; // Unknown state
     }
 
-    const daysSinceLastDone = Math.round(
-      (today.getTime() - lastDoneDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    // The bar only fills up once the grace window has passed as well
+    const dayMs = 1000 * 60 * 60 * 24;
+    const cycleDays = cycle.days + task.graceDays;
+    const elapsedDays = Math.round((today.getTime() - cycle.start.getTime()) / dayMs);
 
     // Convert to percentage (0-100%, may exceed 100% if overdue)
-    return Math.max(0, Math.min(100, (daysSinceLastDone / intervalInDays) * 100));
+    return Math.max(0, Math.min(100, (elapsedDays / cycleDays) * 100));
+  }
+
+  /**
+   * Start and length (in days) of the cycle that ends at the next due date
+   */
+  private getCycle(task: ProcessedTask, scheduleBase: string): { start: Date; days: number } | null {
+    const dayMs = 1000 * 60 * 60 * 24;
+    const lastDoneDate = DateUtils.parseLocalDate(scheduleBase);
+    const dueDate = task.calculatedNextDue ? DateUtils.parseLocalDate(task.calculatedNextDue) : null;
+
+    // Fixed schedules: the cycle runs from the previous due date to the next one
+    if (RecurringUpkeepUtils.isFixedSchedule(task) && dueDate) {
+      const cycleStart = DateUtils.addInterval(dueDate, -Number(task.interval), task.interval_unit.toLowerCase());
+      if (!cycleStart) {
+        return null;
+      }
+      return { start: cycleStart, days: Math.max(1, Math.round((dueDate.getTime() - cycleStart.getTime()) / dayMs)) };
+    }
+
+    if (isNaN(lastDoneDate.getTime())) {
+      return null;
+    }
+
+    // Calendar rules and rrules: from the last completion towards the next matching day
+    if (RecurringUpkeepUtils.followsCalendar(task) && dueDate) {
+      return { start: lastDoneDate, days: Math.max(1, Math.round((dueDate.getTime() - lastDoneDate.getTime()) / dayMs)) };
+    }
+
+    // Rolling schedules: one interval after the last completion
+    const intervalInDays = RecurringUpkeepUtils.calculateIntervalInDays(
+      task.interval,
+      task.interval_unit
+    );
+    return { start: lastDoneDate, days: intervalInDays };
   }
 }
@@ -0,0 +1,56 @@
+import { App, Modal } from 'obsidian';
+import { I18nUtils } from '../i18n/I18nUtils';
+
+/**
+ * Confirms skipping an occurrence and asks for an optional reason
+ */
+export class SkipReasonModal extends Modal {
+  private onSubmit: (reason: string) => void;
+
+  constructor(app: App, onSubmit: (reason: string) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const t = I18nUtils.t;
+    const { contentEl } = this;
+
+    this.titleEl.setText(t.ui.skipModal.title);
+    contentEl.createEl('p', { text: t.ui.skipModal.description });
+
+    const input = contentEl.createEl('input', {
+      type: 'text',
+      cls: 'recurring-upkeep-skip-reason',
+      attr: {
+        placeholder: t.ui.skipModal.reasonPlaceholder,
+        'aria-label': t.ui.skipModal.reason
+      }
+    });
+
+    const buttonRow = contentEl.createEl('div', { cls: 'modal-button-container' });
+    const confirmButton = buttonRow.createEl('button', {
+      text: t.ui.skipModal.confirm,
+      cls: 'mod-cta'
+    });
+
+    const submit = () => {
+      this.close();
+      this.onSubmit(input.value.trim());
+    };
+
+    confirmButton.addEventListener('click', submit);
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        submit();
+      }
+    });
+
+    input.focus();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -1,6 +1,7 @@
 import { ProcessedTask } from '../types';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { TaskStyling } from '../utils/TaskStyling';
+import { DateUtils } from '../utils/DateUtils';
 
 export class StatusIndicator {
   constructor() {
@@ -34,7 +35,7 @@ export class StatusIndicator {
 
     // Add tooltip if we have a due date
     if (task.calculatedNextDue) {
-      const now = new Date().toISOString().split('T')[0];
+      const now = DateUtils.today();
       try {
         I18nUtils.addDateTooltip(secondaryElement, task.calculatedNextDue, I18nUtils.t.ui.labels.due, now);
       } catch (error) {
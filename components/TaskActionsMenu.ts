@@ -0,0 +1,263 @@
+import { App, Menu, Notice } from 'obsidian';
+import { ProcessedTask, MarkCompleteResult, CompletionRecord, CompletionDetails } from '../types';
+import { RecurringUpkeepUtils } from '../utils/RecurringUpkeepUtils';
+import { TaskSchema } from '../utils/TaskSchema';
+import { I18nUtils } from '../i18n/I18nUtils';
+import { DatePickerModal } from './DatePickerModal';
+import { SkipReasonModal } from './SkipReasonModal';
+import { CompleteOnModal } from './CompleteOnModal';
+import { CompletionModal } from './CompletionModal';
+
+// How long the notice offering to undo a completion stays up
+const UNDO_NOTICE_MS = 8000;
+
+/**
+ * "⋯" button with the task actions besides completing it now (completing with a note or at
+ * an earlier date, skipping, snoozing, pausing, undoing a completion)
+ */
+export class TaskActionsMenu {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  render(container: HTMLElement, task: ProcessedTask): void {
+    const button = container.createEl('button', {
+      text: '⋯',
+      cls: 'recurring-upkeep-button recurring-upkeep-actions-button',
+      attr: { 'aria-label': I18nUtils.t.ui.buttons.taskActions }
+    });
+
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.show(event, task);
+    });
+  }
+
+  /**
+   * Open the menu at the pointer; also used for row context menus
+   */
+  show(event: MouseEvent, task: ProcessedTask): void {
+    const t = I18nUtils.t;
+    const menu = new Menu();
+
+    const completion = RecurringUpkeepUtils.getUndoableCompletion(task.file.path, task.schedule_index);
+    if (completion) {
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.undoCompletion)
+        .setIcon('undo-2')
+        .onClick(() => this.undoCompletion(completion)));
+
+      menu.addSeparator();
+    }
+
+    menu.addItem(item => item
+      .setTitle(t.ui.actions.completeWithNote)
+      .setIcon('pencil')
+      .onClick(() => {
+        new CompletionModal(this.app, TaskSchema.recordFields(task), details => this.complete(task, undefined, details)).open();
+      }));
+
+    menu.addItem(item => item
+      .setTitle(t.ui.actions.completeOn)
+      .setIcon('calendar-check')
+      .onClick(() => {
+        new CompleteOnModal(this.app, completedAt => this.completeOn(task, completedAt)).open();
+      }));
+
+    menu.addItem(item => item
+      .setTitle(t.ui.actions.skip)
+      .setIcon('skip-forward')
+      .onClick(() => {
+        new SkipReasonModal(this.app, reason => this.skip(task, reason)).open();
+      }));
+
+    menu.addSeparator();
+
+    for (const days of [1, 3]) {
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.snoozeDays(days))
+        .setIcon('alarm-clock')
+        .onClick(() => this.snooze(task, RecurringUpkeepUtils.getSnoozeDate(days))));
+    }
+
+    menu.addItem(item => item
+      .setTitle(t.ui.actions.snoozeWeek)
+      .setIcon('alarm-clock')
+      .onClick(() => this.snooze(task, RecurringUpkeepUtils.getSnoozeDate(7))));
+
+    menu.addItem(item => item
+      .setTitle(t.ui.actions.snoozeUntil)
+      .setIcon('calendar')
+      .onClick(() => {
+        new DatePickerModal(
+          this.app,
+          t.ui.snoozeModal.title,
+          t.ui.snoozeModal.confirm,
+          until => this.snooze(task, until),
+          task.snoozed_until
+        ).open();
+      }));
+
+    if (task.snoozed_until) {
+      menu.addSeparator();
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.cancelSnooze)
+        .setIcon('x')
+        .onClick(() => this.snooze(task, null)));
+    }
+
+    menu.addSeparator();
+
+    if (this.isPaused(task)) {
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.resume)
+        .setIcon('play')
+        .onClick(() => this.togglePause(task)));
+    } else {
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.pause)
+        .setIcon('pause')
+        .onClick(() => this.togglePause(task)));
+
+      menu.addItem(item => item
+        .setTitle(t.ui.actions.pauseUntil)
+        .setIcon('calendar')
+        .onClick(() => {
+          new DatePickerModal(
+            this.app,
+            t.ui.pauseModal.title,
+            t.ui.pauseModal.confirm,
+            until => this.pause(task, until)
+          ).open();
+        }));
+    }
+
+    menu.showAtMouseEvent(event);
+  }
+
+  /**
+   * Resume a paused task, or pause an active one until it is resumed
+   */
+  async togglePause(task: ProcessedTask): Promise<void> {
+    if (!this.isPaused(task)) {
+      await this.pause(task, null);
+      return;
+    }
+
+    const result = await RecurringUpkeepUtils.resumeTask(this.app, task.file.path, task.schedule_index);
+    this.notify(result, I18nUtils.t.ui.messages.resumed(this.getTaskName(task)));
+  }
+
+  /**
+   * Notice after a completion with a button to take it back
+   */
+  showUndoNotice(completion: CompletionRecord, message: string): void {
+    const notice = new Notice(createFragment(fragment => {
+      fragment.createSpan({ text: message });
+      const undoButton = fragment.createEl('button', {
+        text: I18nUtils.t.ui.buttons.undo,
+        cls: 'recurring-upkeep-undo-button'
+      });
+      undoButton.addEventListener('click', () => {
+        notice.hide();
+        this.undoCompletion(completion);
+      });
+    }), UNDO_NOTICE_MS);
+  }
+
+  /**
+   * Restore the task to how it was before the completion
+   */
+  async undoCompletion(completion: CompletionRecord): Promise<void> {
+    const result = await RecurringUpkeepUtils.undoCompletion(this.app, completion);
+    this.notify(result, I18nUtils.t.ui.messages.completionUndone(completion.taskName));
+  }
+
+  /**
+   * Pause every schedule of a note when any of them is active, else resume them all
+   */
+  async togglePauseAll(tasks: ProcessedTask[]): Promise<void> {
+    if (tasks.length === 1) {
+      await this.togglePause(tasks[0]);
+      return;
+    }
+
+    const pausing = tasks.some(task => !this.isPaused(task));
+    for (const task of tasks) {
+      if (pausing && !this.isPaused(task)) {
+        await this.pause(task, null);
+      } else if (!pausing) {
+        await this.togglePause(task);
+      }
+    }
+  }
+
+  private async pause(task: ProcessedTask, until: string | null): Promise<void> {
+    const result = await RecurringUpkeepUtils.pauseTask(this.app, task.file.path, until, task.schedule_index);
+    this.notify(result, I18nUtils.t.ui.messages.paused(this.getTaskName(task)));
+  }
+
+  /**
+   * Backdated completion; tasks with `record` fields still ask for their measurements
+   */
+  private completeOn(task: ProcessedTask, completedAt: string): void {
+    const fields = TaskSchema.recordFields(task);
+    if (fields.length > 0) {
+      new CompletionModal(this.app, fields, details => this.complete(task, completedAt, details)).open();
+    } else {
+      this.complete(task, completedAt);
+    }
+  }
+
+  private async complete(task: ProcessedTask, completedAt?: string, details?: CompletionDetails): Promise<void> {
+    const result = await RecurringUpkeepUtils.markTaskComplete(this.app, task.file.path, task.schedule_index, completedAt, details);
+    if (!result.success || !result.completion) {
+      this.notify(result, null);
+      return;
+    }
+    if (result.historyError) {
+      new Notice(result.historyError);
+    }
+
+    const message = completedAt
+      ? I18nUtils.t.ui.messages.completedOn(this.getTaskName(task), I18nUtils.formatShortDate(completedAt.split('T')[0]))
+      : I18nUtils.t.ui.messages.completed(this.getTaskName(task));
+    this.showUndoNotice(result.completion, message);
+  }
+
+  private async skip(task: ProcessedTask, reason: string): Promise<void> {
+    const result = await RecurringUpkeepUtils.skipTask(this.app, task.file.path, reason, task.schedule_index);
+    this.notify(result, I18nUtils.t.ui.messages.skipped(this.getTaskName(task)));
+  }
+
+  private async snooze(task: ProcessedTask, until: string | null): Promise<void> {
+    const result = await RecurringUpkeepUtils.snoozeTask(this.app, task.file.path, until, task.schedule_index);
+    this.notify(result, until ? I18nUtils.t.ui.messages.snoozed(this.getTaskName(task), I18nUtils.formatShortDate(until)) : null);
+  }
+
+  private notify(result: MarkCompleteResult, message: string | null): void {
+    if (!result.success) {
+      new Notice(I18nUtils.t.ui.messages.error(result.error || 'Unknown error'));
+    } else if (message) {
+      new Notice(message);
+    }
+    if (result.historyError) {
+      new Notice(result.historyError);
+    }
+  }
+
+  /**
+   * Paused by its own fields; the display state may show finished or not started instead
+   */
+  private isPaused(task: ProcessedTask): boolean {
+    return RecurringUpkeepUtils.getActivePause(task) !== null;
+  }
+
+  private getTaskName(task: ProcessedTask): string {
+    const name = task.file.basename || task.file.name;
+    return task.schedule_name ? `${name}: ${task.schedule_name}` : name;
+  }
+}
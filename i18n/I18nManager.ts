@@ -3,6 +3,7 @@ import { LocaleDefinition, LocaleKey, I18nOptions } from './types';
 import { en } from './locales/en';
 import { de } from './locales/de';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+import { DateUtils } from '../utils/DateUtils';
 
 // Type definitions for accessing Obsidian app configuration
 interface VaultConfig {
@@ -111,7 +112,7 @@ export class I18nManager {
    */
   formatDate(date: Date | string, options?: Intl.DateTimeFormatOptions): string {
     try {
-      const dateObj = typeof date === 'string' ? new Date(date) : date;
+      const dateObj = typeof date === 'string' ? DateUtils.parseLocalDateTime(date) : date;
       if (isNaN(dateObj.getTime())) return '';
 
       const defaultOptions: Intl.DateTimeFormatOptions = {
@@ -132,7 +133,7 @@ export class I18nManager {
    */
   getWeekdayName(date: Date | string): string {
     try {
-      const dateObj = typeof date === 'string' ? new Date(date) : date;
+      const dateObj = typeof date === 'string' ? DateUtils.parseLocalDateTime(date) : date;
       if (isNaN(dateObj.getTime())) return '';
 
       return new Intl.DateTimeFormat(this.currentLocale, { weekday: 'long' }).format(dateObj);
@@ -146,7 +147,7 @@ export class I18nManager {
    */
   getShortWeekdayName(date: Date | string): string {
     try {
-      const dateObj = typeof date === 'string' ? new Date(date) : date;
+      const dateObj = typeof date === 'string' ? DateUtils.parseLocalDateTime(date) : date;
       if (isNaN(dateObj.getTime())) return '';
 
       return new Intl.DateTimeFormat(this.currentLocale, { weekday: 'short' }).format(dateObj);
@@ -172,7 +173,7 @@ export class I18nManager {
   /**
    * Helper to get time unit in correct form
    */
-  getTimeUnit(count: number, unit: 'day' | 'week' | 'month' | 'year'): string {
+  getTimeUnit(count: number, unit: 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'): string {
     const units = this.locale.time.units;
     const singular = units[unit];
     const plural = units[unit + 's' as keyof typeof units];
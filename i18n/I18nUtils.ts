@@ -1,6 +1,13 @@
 import { App } from 'obsidian';
 import { I18nManager } from './I18nManager';
 import { LocaleKey } from './types';
+import { UpkeepTask } from '../types';
+import { CalendarRule, CalendarRulePart } from '../utils/CalendarRule';
+import { RRule, ParsedRRule } from '../utils/RRule';
+import { DateUtils } from '../utils/DateUtils';
+import { Meter } from '../utils/Meter';
+import { FlexibleWindow } from '../utils/FlexibleWindow';
+import { WorkCalendar } from '../utils/WorkCalendar';
 
 /**
  * Global i18n utility instance
@@ -52,63 +59,227 @@ export class I18nUtils {
   }
 
   /**
-   * Format overdue status with days
+   * Format overdue status with days; hour and minute tasks can be late by less than a day
    */
   static formatOverdue(days: number): string {
-    return this.t.status.overdue(days);
+    return Number.isInteger(days) || days >= 1
+      ? this.t.status.overdue(Math.round(days))
+      : this.t.status.overdueBy(this.formatDuration(days));
   }
 
   /**
-   * Format frequency description
+   * Format due-soon status, in hours or minutes when the task is due within a day
    */
-  static formatFrequency(interval: number, intervalUnit: string): string {
+  static formatDueSoon(days: number): string {
+    return Number.isInteger(days) || days >= 1
+      ? this.t.status.dueSoon(Math.round(days))
+      : this.t.status.dueIn(this.formatDuration(days));
+  }
+
+  /**
+   * Format grace status; fractional days (hour and minute tasks) are shown as durations
+   */
+  static formatInGrace(daysLate: number, graceDays: number): string {
+    return Number.isInteger(daysLate) && Number.isInteger(graceDays)
+      ? this.t.status.inGrace(daysLate, graceDays)
+      : this.t.status.lateInGrace(this.formatDuration(daysLate), this.formatDuration(graceDays));
+  }
+
+  /**
+   * Format a length of time given in (fractional) days, e.g. "45 minutes", "3 hours" or "2 days"
+   */
+  static formatDuration(days: number): string {
+    const minutes = Math.round(Math.abs(days) * 24 * 60);
+    if (minutes < 60) {
+      return `${minutes} ${this.i18n.getTimeUnit(minutes, 'minute')}`;
+    }
+    if (minutes < 24 * 60) {
+      const hours = Math.round(minutes / 60);
+      return `${hours} ${this.i18n.getTimeUnit(hours, 'hour')}`;
+    }
+    const wholeDays = Math.round(minutes / (24 * 60));
+    return `${wholeDays} ${this.i18n.getTimeUnit(wholeDays, 'day')}`;
+  }
+
+  /**
+   * Format frequency description, including a calendar rule (`on:`), rrule, flexible window or meter interval when present
+   */
+  static formatFrequency(interval: number, intervalUnit: string, rules?: Pick<UpkeepTask, 'on' | 'rrule' | 'meter_interval' | 'meter_unit' | 'interval_min' | 'interval_max'>): string {
+    if (rules && Meter.isMeterTask(rules)) {
+      const meterInterval = Number(rules.meter_interval);
+      if (!Meter.hasTimeSchedule({ interval, interval_unit: intervalUnit, rrule: rules.rrule })) {
+        return this.t.time.frequencies.every(meterInterval, rules.meter_unit || '').trim();
+      }
+      return this.t.time.frequencies.whicheverFirst(
+        this.formatFrequency(interval, intervalUnit, { on: rules.on, rrule: rules.rrule }),
+        this.formatMeterAmount(meterInterval, rules.meter_unit)
+      );
+    }
+
+    const rrule = RRule.parse(rules?.rrule);
+    if (rrule) {
+      return this.formatRRule(rrule);
+    }
+
+    const window = rules ? FlexibleWindow.parse({ ...rules, interval_unit: intervalUnit }) : null;
+    if (window) {
+      return this.t.time.frequencies.everyBetween(window.min, window.max, this.formatUnitName(window.max, intervalUnit));
+    }
+
+    const frequency = this.formatIntervalFrequency(interval, intervalUnit);
+    const rule = CalendarRule.parse(rules?.on, intervalUnit);
+
+    return rule ? this.t.time.rules.on(frequency, this.formatCalendarRule(rule)) : frequency;
+  }
+
+  /**
+   * Format an amount of use with its unit, e.g. "1,250 km"
+   */
+  static formatMeterAmount(amount: number, unit?: string): string {
+    return `${this.i18n.formatNumber(amount)} ${unit || ''}`.trim();
+  }
+
+  /**
+   * Status text for a task that is due because of its meter, e.g. "🔔 Due in 40 km"
+   */
+  static formatMeterStatus(remaining: number, unit?: string): string {
+    const amount = this.formatMeterAmount(Math.abs(remaining), unit);
+    return remaining <= 0 ? this.t.status.meterOverdue(amount) : this.t.status.meterDueSoon(amount);
+  }
+
+  /**
+   * Use left (or over) on a task's meter, e.g. "40 km left"
+   */
+  static formatMeterLeft(remaining: number, unit?: string): string {
+    const amount = this.formatMeterAmount(Math.abs(remaining), unit);
+    return remaining < 0 ? this.t.ui.statusText.meterOver(amount) : this.t.ui.statusText.meterLeft(amount);
+  }
+
+  /**
+   * Describe an iCalendar recurrence rule, e.g. "Monthly on the 1st Saturday in March, June, September and December"
+   */
+  static formatRRule(rule: ParsedRRule): string {
+    const rules = this.t.time.rules;
+    let text = this.formatIntervalFrequency(rule.interval, RRule.intervalUnit(rule));
+
+    const days = [...rule.byMonthDay, ...rule.byDay];
+    if (days.length > 0) {
+      text = rules.on(text, this.formatCalendarRule(days));
+    }
+    if (rule.byMonth.length > 0) {
+      const months = rule.byMonth.map(month => this.i18n.formatDate(new Date(2024, month - 1, 1), { month: 'long' }));
+      text = rules.inMonths(text, rules.list(months));
+    }
+    if (rule.count) {
+      text = rules.times(text, rule.count);
+    }
+    if (rule.until) {
+      text = rules.until(text, this.formatShortDate(rule.until));
+    }
+
+    return text;
+  }
+
+  /**
+   * Describe the days picked by a calendar rule, e.g. "the 2nd Saturday" or "Monday and Thursday"
+   */
+  static formatCalendarRule(parts: CalendarRulePart[]): string {
+    const rules = this.t.time.rules;
+    // 2024-01-07 was a Sunday, so adding the weekday number gives a matching date
+    const weekdayName = (weekday: number) => this.i18n.getWeekdayName(new Date(2024, 0, 7 + weekday));
+    // Negative positions count from the end of the month
+    const position = (n: number) => n === -1 ? rules.last : n < 0 ? rules.nthLast(rules.ordinal(-n)) : rules.ordinal(n);
+
+    const texts = parts.map(part => {
+      switch (part.kind) {
+        case 'weekday':
+          return weekdayName(part.weekday);
+        case 'nth-weekday':
+          return rules.nthWeekday(position(part.nth), weekdayName(part.weekday));
+        case 'month-day':
+          return part.day === -1 ? rules.lastDay : rules.dayOfMonth(position(part.day));
+      }
+    });
+
+    return rules.list(texts);
+  }
+
+  private static formatIntervalFrequency(interval: number, intervalUnit: string): string {
     const t = this.t;
     const normalizedUnit = intervalUnit?.toLowerCase();
 
     if (interval === 1) {
+      if (normalizedUnit === "hour" || normalizedUnit === "hours") return t.time.frequencies.hourly;
       if (normalizedUnit === "day" || normalizedUnit === "days") return t.time.frequencies.daily;
       if (normalizedUnit === "week" || normalizedUnit === "weeks") return t.time.frequencies.weekly;
       if (normalizedUnit === "month" || normalizedUnit === "months") return t.time.frequencies.monthly;
       if (normalizedUnit === "year" || normalizedUnit === "years") return t.time.frequencies.yearly;
     }
 
-    // Get proper unit name
-    let unitName: string;
-    if (normalizedUnit === "day" || normalizedUnit === "days") {
-      unitName = this.i18n.getTimeUnit(interval, 'day');
+    return t.time.frequencies.every(interval, this.formatUnitName(interval, intervalUnit));
+  }
+
+  /**
+   * Localized unit name for a count, e.g. "months" for 18; unknown units are kept as given
+   */
+  private static formatUnitName(count: number, intervalUnit: string): string {
+    const normalizedUnit = intervalUnit?.toLowerCase();
+
+    if (normalizedUnit === "minute" || normalizedUnit === "minutes") {
+      return this.i18n.getTimeUnit(count, 'minute');
+    } else if (normalizedUnit === "hour" || normalizedUnit === "hours") {
+      return this.i18n.getTimeUnit(count, 'hour');
+    } else if (normalizedUnit === "day" || normalizedUnit === "days") {
+      return this.i18n.getTimeUnit(count, 'day');
     } else if (normalizedUnit === "week" || normalizedUnit === "weeks") {
-      unitName = this.i18n.getTimeUnit(interval, 'week');
+      return this.i18n.getTimeUnit(count, 'week');
     } else if (normalizedUnit === "month" || normalizedUnit === "months") {
-      unitName = this.i18n.getTimeUnit(interval, 'month');
+      return this.i18n.getTimeUnit(count, 'month');
     } else if (normalizedUnit === "year" || normalizedUnit === "years") {
-      unitName = this.i18n.getTimeUnit(interval, 'year');
-    } else {
-      unitName = intervalUnit;
+      return this.i18n.getTimeUnit(count, 'year');
     }
+    return intervalUnit;
+  }
 
-    return t.time.frequencies.every(interval, unitName);
+  /**
+   * Format a YYYY-MM-DD date as a short local date, e.g. "Mar 15, 2024"
+   */
+  static formatShortDate(dateString: string): string {
+    const date = DateUtils.parseLocalDateTime(dateString);
+    if (isNaN(date.getTime())) return dateString;
+
+    return this.i18n.formatDate(date, { year: 'numeric', month: 'short', day: 'numeric' });
   }
 
   /**
    * Format relative date with proper localization
+   * Timestamps (YYYY-MM-DDTHH:mm) within a day of now are shown in hours or minutes
+   * With `workingDays`, distances of up to a few weeks are counted in working days
    */
-  static formatRelativeDate(dateString: string, now?: string): string {
+  static formatRelativeDate(dateString: string, now?: string, workingDays = false): string {
     if (!dateString) return this.t.ui.labels.never;
 
-    const date = new Date(dateString);
-    const todayStr = now || new Date().toISOString().split('T')[0];
-    const today = new Date(todayStr);
+    if (DateUtils.hasTime(dateString)) {
+      const diffMinutes = Math.round(DateUtils.wallClockDiff(DateUtils.resolveNow(now), DateUtils.parseLocalDateTime(dateString)) / (1000 * 60));
+      const relative = this.t.time.relative;
+
+      if (Math.abs(diffMinutes) < 60) {
+        return diffMinutes < 0 ? relative.minutesAgo(-diffMinutes) : relative.inMinutes(diffMinutes);
+      }
+      if (Math.abs(diffMinutes) < 24 * 60) {
+        const hours = Math.round(Math.abs(diffMinutes) / 60);
+        return diffMinutes < 0 ? relative.hoursAgo(hours) : relative.inHours(hours);
+      }
+    }
+
+    const date = DateUtils.parseLocalDateTime(dateString);
+    const today = DateUtils.parseLocalDate(now || DateUtils.today());
 
     if (isNaN(date.getTime()) || isNaN(today.getTime())) {
       return this.t.ui.labels.never;
     }
 
-    // Normalize dates to avoid timezone issues
-    date.setHours(0, 0, 0, 0);
-    today.setHours(0, 0, 0, 0);
-
-    const diffTime = date.getTime() - today.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = DateUtils.daysBetween(today, date);
     const t = this.t;
 
     if (diffDays === 0) return t.time.relative.today;
@@ -121,6 +292,14 @@ export class I18nUtils {
       return t.time.relative.onWeekday(weekdayName);
     }
 
+    // Roughly four weeks of working days; longer distances read better as weeks and months
+    if (workingDays) {
+      const workDays = WorkCalendar.countWorkingDays(today, date);
+      if (Math.abs(workDays) < 20) {
+        return workDays < 0 ? t.time.relative.workingDaysAgo(-workDays) : t.time.relative.inWorkingDays(workDays);
+      }
+    }
+
     // Use the smart period formatting
     return this.formatDaysToPeriod(diffDays);
   }
@@ -157,16 +336,11 @@ export class I18nUtils {
     const tooltipPrefix = prefix || this.t.ui.labels.due;
 
     if (now) {
-      const todayStr = now;
-      const today = new Date(todayStr);
-      const targetDate = new Date(dateString);
+      const today = DateUtils.parseLocalDate(now);
+      const targetDate = DateUtils.parseLocalDateTime(dateString);
 
       if (!isNaN(today.getTime()) && !isNaN(targetDate.getTime())) {
-        today.setHours(0, 0, 0, 0);
-        targetDate.setHours(0, 0, 0, 0);
-
-        const diffTime = targetDate.getTime() - today.getTime();
-        const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
+        const diffDays = DateUtils.daysBetween(today, targetDate);
 
         element.title = this.t.help.dateTooltip(tooltipPrefix, formattedDate, diffDays);
       } else {
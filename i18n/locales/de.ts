@@ -6,6 +6,22 @@ export const de: LocaleDefinition = {
     overdue: (days: number) => `⚠️ Überfällig seit ${days} ${days === 1 ? 'Tag' : 'Tagen'}`,
     dueToday: '⏰ Heute fällig',
     neverCompleted: '⚠️ Nie erledigt',
+    dueSoon: (days: number) => `🔔 Fällig in ${days} ${days === 1 ? 'Tag' : 'Tagen'}`,
+    inGrace: (daysLate: number, graceDays: number) => daysLate === 0
+      ? `⏳ Heute fällig (Toleranz: ${graceDays} ${graceDays === 1 ? 'Tag' : 'Tage'})`
+      : `⏳ ${daysLate} ${daysLate === 1 ? 'Tag' : 'Tage'} verspätet (Toleranz: ${graceDays} ${graceDays === 1 ? 'Tag' : 'Tage'})`,
+    overdueBy: (duration: string) => `⚠️ Überfällig seit ${duration}`,
+    dueIn: (duration: string) => `🔔 Fällig in ${duration}`,
+    lateInGrace: (late: string, grace: string) => `⏳ ${late} verspätet (Toleranz: ${grace})`,
+    meterOverdue: (amount: string) => `⚠️ Um ${amount} überfällig`,
+    meterDueSoon: (amount: string) => `🔔 Fällig in ${amount}`,
+    snoozed: (until: string) => `💤 Zurückgestellt bis ${until}`,
+    paused: (until?: string) => until ? `⏸️ Pausiert bis ${until}` : '⏸️ Pausiert',
+    dormant: (until: string) => `🌙 Außerhalb der Saison bis ${until}`,
+    notStarted: (startDate: string) => `🕒 Beginnt am ${startDate}`,
+    inWindow: (until: string) => `🟡 Im Zeitfenster bis ${until}`,
+    notYetDue: (opens: string) => `✅ Noch nicht fällig (Zeitfenster ab ${opens})`,
+    finished: '🏁 Abgeschlossen',
   },
 
   time: {
@@ -18,13 +34,35 @@ export const de: LocaleDefinition = {
       months: 'Monate',
       year: 'Jahr',
       years: 'Jahre',
+      hour: 'Stunde',
+      hours: 'Stunden',
+      minute: 'Minute',
+      minutes: 'Minuten',
     },
     frequencies: {
+      hourly: 'Stündlich',
       daily: 'Täglich',
       weekly: 'Wöchentlich',
       monthly: 'Monatlich',
       yearly: 'Jährlich',
       every: (count: number, unit: string) => `Alle ${count} ${unit}`,
+      whicheverFirst: (frequency: string, amount: string) => `${frequency} oder alle ${amount}, je nachdem, was zuerst eintritt`,
+      everyBetween: (min: number, max: number, unit: string) => `Alle ${min}–${max} ${unit}`,
+    },
+    rules: {
+      on: (frequency: string, rule: string) => `${frequency} am ${rule}`,
+      ordinal: (n: number) => `${n}.`,
+      last: 'letzten',
+      lastDay: 'letzten Tag',
+      dayOfMonth: (ordinal: string) => ordinal,
+      nthWeekday: (ordinal: string, weekday: string) => `${ordinal} ${weekday}`,
+      list: (items: string[]) => items.length > 1
+        ? `${items.slice(0, -1).join(', ')} und ${items[items.length - 1]}`
+        : items.join(''),
+      nthLast: (ordinal: string) => `${ordinal} letzten`,
+      inMonths: (frequency: string, months: string) => `${frequency} im ${months}`,
+      times: (frequency: string, count: number) => `${frequency}, ${count}-mal`,
+      until: (frequency: string, date: string) => `${frequency} bis ${date}`,
     },
     relative: {
       today: 'heute',
@@ -38,6 +76,12 @@ export const de: LocaleDefinition = {
       monthsAgo: (months: number) => `vor ${months} ${months === 1 ? 'Monat' : 'Monaten'}`,
       inYears: (years: number) => `in ${years} ${years === 1 ? 'Jahr' : 'Jahren'}`,
       yearsAgo: (years: number) => `vor ${years} ${years === 1 ? 'Jahr' : 'Jahren'}`,
+      inHours: (hours: number) => `in ${hours} ${hours === 1 ? 'Stunde' : 'Stunden'}`,
+      hoursAgo: (hours: number) => `vor ${hours} ${hours === 1 ? 'Stunde' : 'Stunden'}`,
+      inMinutes: (minutes: number) => `in ${minutes} ${minutes === 1 ? 'Minute' : 'Minuten'}`,
+      minutesAgo: (minutes: number) => `vor ${minutes} ${minutes === 1 ? 'Minute' : 'Minuten'}`,
+      inWorkingDays: (days: number) => `in ${days} ${days === 1 ? 'Arbeitstag' : 'Arbeitstagen'}`,
+      workingDaysAgo: (days: number) => `vor ${days} ${days === 1 ? 'Arbeitstag' : 'Arbeitstagen'}`,
       onWeekday: (weekday: string) => `am ${weekday}`,
     },
   },
@@ -46,6 +90,59 @@ export const de: LocaleDefinition = {
     buttons: {
       markComplete: 'Als erledigt markieren',
       setup: 'Aufgabe einrichten',
+      taskActions: 'Aufgabenaktionen',
+      undo: 'Rückgängig',
+    },
+    actions: {
+      snoozeDays: (days: number) => `${days} ${days === 1 ? 'Tag' : 'Tage'} zurückstellen`,
+      snoozeWeek: '1 Woche zurückstellen',
+      snoozeUntil: 'Zurückstellen bis …',
+      cancelSnooze: 'Zurückstellung aufheben',
+      skip: 'Diesmal überspringen …',
+      pause: 'Pausieren',
+      pauseUntil: 'Pausieren bis …',
+      resume: 'Fortsetzen',
+      undoCompletion: 'Erledigung rückgängig machen',
+      completeOn: 'Erledigt am …',
+      completeWithNote: 'Mit Notiz erledigen …',
+    },
+    snoozeModal: {
+      title: 'Zurückstellen bis',
+      confirm: 'Zurückstellen',
+      invalidDate: 'Bitte ein Datum nach heute wählen.',
+    },
+    pauseModal: {
+      title: 'Pausieren bis',
+      confirm: 'Pausieren',
+    },
+    completionModal: {
+      title: 'Als erledigt markieren',
+      note: 'Notiz',
+      notePlaceholder: 'Optional, z. B. was ersetzt wurde oder was es gekostet hat',
+      confirm: 'Als erledigt markieren',
+    },
+    completeOnModal: {
+      title: 'Erledigt am',
+      date: 'Datum',
+      time: 'Uhrzeit',
+      confirm: 'Als erledigt markieren',
+      futureDate: 'Bitte ein Datum und eine Uhrzeit wählen, die nicht in der Zukunft liegen.',
+    },
+    skipModal: {
+      title: 'Diesmal überspringen',
+      description: 'Der Zeitplan geht weiter, als wäre die Aufgabe erledigt, im Verlauf wird sie aber als übersprungen vermerkt.',
+      reason: 'Grund (optional)',
+      reasonPlaceholder: 'z. B. das Fahrrad ist in der Werkstatt',
+      confirm: 'Überspringen',
+    },
+    history: {
+      completed: 'Erledigt',
+      completedAt: (reading: string) => `Erledigt bei ${reading}`,
+      skipped: (reason: string) => reason ? `Übersprungen: ${reason}` : 'Übersprungen',
+      snoozed: (until: string) => `Zurückgestellt bis ${until}`,
+      snoozeCancelled: 'Zurückstellung aufgehoben',
+      paused: (until?: string) => until ? `Pausiert bis ${until}` : 'Pausiert',
+      resumed: 'Fortgesetzt',
     },
     labels: {
       task: 'Aufgabe',
@@ -64,6 +161,9 @@ export const de: LocaleDefinition = {
       daysSinceLast: 'Tage seit letztem',
       daysScheduled: 'Tage vorgesehen',
       user: 'Benutzer',
+      action: 'Aktion',
+      note: 'Notiz',
+      resumes: 'Wieder aktiv',
       recurringTasks: 'Wiederkehrende Aufgaben',
       totalTasks: 'Gesamt',
       needsAttention: 'Braucht Aufmerksamkeit',
@@ -74,21 +174,34 @@ export const de: LocaleDefinition = {
       dueWithFrequency: (due: string, frequencyDesc: string) => `Fällig ${due} (${frequencyDesc})`,
       dueInDays: (days: number, frequencyDesc: string) => `Fällig in ${days} ${days === 1 ? 'Tag' : 'Tagen'} (${frequencyDesc})`,
       approximateDueDate: (days: number) => `Ungefähres Fälligkeitsdatum (${days} ${days === 1 ? 'Tag' : 'Tage'} nach Abschluss)`,
+      meterLeft: (amount: string) => `noch ${amount}`,
+      meterOver: (amount: string) => `${amount} überschritten`,
     },
     messages: {
       setupTitle: '⚙️ Wiederkehrende Aufgabe einrichten',
       setupDescription: 'Um dieses Status-Widget zu verwenden, fügen Sie folgendes zu Ihrem Dokument-Frontmatter hinzu:',
       setupFields: {
-        tags: 'tags: "recurring-task" hinzufügen',
-        lastDone: 'last_done: Datum der letzten Erledigung (YYYY-MM-DD)',
-        interval: 'interval: Wie oft (Zahl)',
-        intervalUnit: 'interval_unit: days, weeks, months, oder years',
+        tags: (tag: string) => `tags: "${tag}" hinzufügen`,
+        lastDone: (field: string) => `${field}: Datum der letzten Erledigung (YYYY-MM-DD)`,
+        interval: (field: string) => `${field}: Wie oft (Zahl)`,
+        intervalUnit: (field: string) => `${field}: days, weeks, months, oder years`,
       },
       noTasks: 'Keine wiederkehrenden Aufgaben gefunden',
       noTasksFilter: 'Keine Aufgaben entsprechen dem aktuellen Filter.',
       error: (message: string) => `Fehler: ${message}`,
       loading: 'Lade Aufgaben...',
       failedToUpdateCompletionHistory: 'Fehler beim Aktualisieren des Erledigungsverlaufs',
+      snoozed: (task: string, until: string) => `${task} zurückgestellt bis ${until}`,
+      skipped: (task: string) => `${task} wird diesmal übersprungen`,
+      paused: (task: string) => `${task} pausiert`,
+      resumed: (task: string) => `${task} fortgesetzt`,
+      completed: (task: string) => `${task} erledigt`,
+      completedOn: (task: string, date: string) => `${task} am ${date} erledigt`,
+      completionUndone: (task: string) => `Erledigung von ${task} rückgängig gemacht`,
+      cannotUndo: 'Die Aufgabe wurde seit der Erledigung geändert',
+      historyMoved: (entries: number, tasks: number) => `${entries} ${entries === 1 ? 'Verlaufseintrag' : 'Verlaufseinträge'} von ${tasks} ${tasks === 1 ? 'Aufgabe' : 'Aufgaben'} verschoben`,
+      noHistoryToMove: 'Der gesamte Erledigungsverlauf liegt bereits am eingestellten Speicherort',
+      startupCheckProblems: (count: number) => `Recurring Upkeep: ${count} ${count === 1 ? 'Aufgabennotiz hat' : 'Aufgabennotizen haben'} einen ungültigen Zeitplan. Details in der Entwicklerkonsole.`,
     },
   },
 
@@ -96,7 +209,15 @@ export const de: LocaleDefinition = {
     status: {
       all: 'Alle Aufgaben',
       overdue: 'Überfällige Aufgaben',
+      grace: 'Verspätet, innerhalb der Toleranz',
+      dueSoon: 'Bald fällig',
+      inWindow: 'Im Zeitfenster',
       upToDate: 'Aktuell',
+      snoozed: 'Zurückgestellt',
+      paused: 'Pausiert',
+      dormant: 'Außerhalb der Saison',
+      notStarted: 'Noch nicht begonnen',
+      finished: 'Abgeschlossen',
     },
     sort: {
       dueDate: 'Fälligkeitsdatum',
@@ -105,6 +226,46 @@ export const de: LocaleDefinition = {
     },
   },
 
+  settings: {
+    general: {
+      heading: 'Allgemein',
+      language: { name: 'Sprache', desc: 'Sprache für alle Texte und Statusmeldungen.', auto: 'Automatisch (wie Obsidian)' },
+      defaultFilter: { name: 'Standardfilter für Tabellen', desc: 'Filter für die Seitenleiste und leere recurring-upkeep-table-Blöcke, z. B. "status:overdue". Eine Bedingung pro Zeile.' },
+      completeButton: { name: 'Erledigen-Schaltfläche', desc: 'Wann die Schaltfläche "Als erledigt markieren" angezeigt wird.', whenDue: 'Wenn fällig oder überfällig', always: 'Immer (außer heute erledigt)', never: 'Nie' },
+      dueSoonDays: { name: 'Vorwarnung "Bald fällig"', desc: 'Tage vor dem Fälligkeitsdatum, ab denen eine Aufgabe als "bald fällig" gilt. Aufgaben können das mit warn_days überschreiben. 0 schaltet die Vorwarnung aus.' },
+      checkTasksOnStartup: { name: 'Aufgabennotizen beim Start prüfen', desc: 'Beim Start von Obsidian Aufgabennotizen melden, deren Zeitplan nicht gelesen werden kann.' },
+      timeZone: { name: 'Zeitzone', desc: 'Zeitzone, die bestimmt, wann ein Tag beginnt, als IANA-Name wie "Europe/Berlin" oder "America/New_York". Leer lassen, um die Zeitzone dieses Geräts zu verwenden; festlegen, wenn Personen in verschiedenen Zeitzonen den Vault teilen.', invalid: (timeZone: string) => `"${timeZone}" ist keine bekannte Zeitzone; die bisherige Einstellung wurde beibehalten.` },
+    },
+    history: {
+      heading: 'Erledigungsverlauf',
+      recordHistory: { name: 'Erledigungsverlauf aufzeichnen', desc: 'Bei jeder Erledigung einen Eintrag zum Erledigungsverlauf der Aufgabe hinzufügen.' },
+      recordUser: { name: 'Benutzernamen aufzeichnen', desc: 'Den Systembenutzernamen in jede Zeile des Erledigungsverlaufs aufnehmen.' },
+      historyStorage: {
+        name: 'Speicherort des Verlaufs',
+        desc: 'Wo der Erledigungsverlauf gespeichert wird. Nach einer Änderung verschiebt der Befehl "Move completion history to the configured storage" den bisherigen Verlauf.',
+        table: 'Tabelle in der Aufgabennotiz',
+        frontmatter: 'Liste im Frontmatter (history:)',
+        sidecar: 'Tabelle in einer eigenen Notiz (Aufgabe.history.md)',
+        log: 'Protokolldatei für den ganzen Vault (JSON-Zeilen)',
+      },
+      historyLogFile: { name: 'Verlaufs-Protokolldatei', desc: 'Pfad der Protokolldatei im Vault, die der Speicherort Protokolldatei verwendet.' },
+    },
+    workingDays: {
+      heading: 'Arbeitstage',
+      workingDaysOnly: { name: 'Nur Arbeitstage zählen', desc: 'Tagesintervalle in Arbeitstagen zählen und Fälligkeiten von Wochenenden und Feiertagen verschieben. Aufgaben können das mit working_days: true oder false überschreiben.' },
+      holidaysFile: { name: 'Feiertagsdatei', desc: 'Pfad einer Notiz mit Feiertagen (JJJJ-MM-TT) oder einer .ics-Kalenderdatei im Vault, z. B. "Feiertage.md".' },
+    },
+    schema: {
+      heading: 'Aufgabenschema',
+      description: 'Welche Notizen als wiederkehrende Aufgaben gelten und welche Frontmatter-Felder ihren Zeitplan enthalten. Passen Sie diese an einen bestehenden Vault an, statt Felder in jeder Notiz umzubenennen.',
+      taskTag: { name: 'Aufgaben-Tag', desc: 'Notizen mit diesem Tag sind wiederkehrende Aufgaben. Leer lassen, um nur das Typ-Feld zu verwenden.' },
+      taskType: { name: 'Aufgabentyp', desc: 'Notizen, deren Feld "type" diesen Wert hat, sind wiederkehrende Aufgaben. Leer lassen, um nur den Tag zu verwenden.' },
+      lastDoneField: { name: 'Feld für letzte Erledigung', desc: 'Frontmatter-Feld mit dem Datum der letzten Erledigung.' },
+      intervalField: { name: 'Feld für Intervall', desc: 'Frontmatter-Feld, das angibt, wie oft sich die Aufgabe wiederholt (Zahl).' },
+      intervalUnitField: { name: 'Feld für Intervalleinheit', desc: 'Frontmatter-Feld mit der Einheit des Intervalls (days, weeks, months oder years).' },
+    },
+  },
+
   help: {
     tooltips: {
       due: 'Wann diese Aufgabe zur Erledigung fällig ist',
@@ -6,6 +6,22 @@ export const en: LocaleDefinition = {
     overdue: (days: number) => `⚠️ Overdue by ${days} ${days === 1 ? 'day' : 'days'}`,
     dueToday: '⏰ Due today',
     neverCompleted: '⚠️ Never completed',
+    dueSoon: (days: number) => `🔔 Due in ${days} ${days === 1 ? 'day' : 'days'}`,
+    inGrace: (daysLate: number, graceDays: number) => daysLate === 0
+      ? `⏳ Due today (grace: ${graceDays} ${graceDays === 1 ? 'day' : 'days'})`
+      : `⏳ ${daysLate} ${daysLate === 1 ? 'day' : 'days'} late (grace: ${graceDays} ${graceDays === 1 ? 'day' : 'days'})`,
+    overdueBy: (duration: string) => `⚠️ Overdue by ${duration}`,
+    dueIn: (duration: string) => `🔔 Due in ${duration}`,
+    lateInGrace: (late: string, grace: string) => `⏳ ${late} late (grace: ${grace})`,
+    meterOverdue: (amount: string) => `⚠️ Overdue by ${amount}`,
+    meterDueSoon: (amount: string) => `🔔 Due in ${amount}`,
+    snoozed: (until: string) => `💤 Snoozed until ${until}`,
+    paused: (until?: string) => until ? `⏸️ Paused until ${until}` : '⏸️ Paused',
+    dormant: (until: string) => `🌙 Out of season until ${until}`,
+    notStarted: (startDate: string) => `🕒 Starts ${startDate}`,
+    inWindow: (until: string) => `🟡 In window until ${until}`,
+    notYetDue: (opens: string) => `✅ Not yet due (window opens ${opens})`,
+    finished: '🏁 Finished',
   },
 
   time: {
@@ -18,13 +34,38 @@ export const en: LocaleDefinition = {
       months: 'months',
       year: 'year',
       years: 'years',
+      hour: 'hour',
+      hours: 'hours',
+      minute: 'minute',
+      minutes: 'minutes',
     },
     frequencies: {
+      hourly: 'Hourly',
       daily: 'Daily',
       weekly: 'Weekly',
       monthly: 'Monthly',
       yearly: 'Yearly',
       every: (count: number, unit: string) => `Every ${count} ${unit}`,
+      whicheverFirst: (frequency: string, amount: string) => `${frequency} or every ${amount}, whichever comes first`,
+      everyBetween: (min: number, max: number, unit: string) => `Every ${min}–${max} ${unit}`,
+    },
+    rules: {
+      on: (frequency: string, rule: string) => `${frequency} on ${rule}`,
+      ordinal: (n: number) => {
+        const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+        return `${n}${suffix}`;
+      },
+      last: 'last',
+      lastDay: 'the last day',
+      dayOfMonth: (ordinal: string) => `the ${ordinal}`,
+      nthWeekday: (ordinal: string, weekday: string) => `the ${ordinal} ${weekday}`,
+      list: (items: string[]) => items.length > 1
+        ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+        : items.join(''),
+      nthLast: (ordinal: string) => `${ordinal} to last`,
+      inMonths: (frequency: string, months: string) => `${frequency} in ${months}`,
+      times: (frequency: string, count: number) => `${frequency}, ${count} ${count === 1 ? 'time' : 'times'}`,
+      until: (frequency: string, date: string) => `${frequency} until ${date}`,
     },
     relative: {
       today: 'today',
@@ -38,6 +79,12 @@ export const en: LocaleDefinition = {
       monthsAgo: (months: number) => `${months} ${months === 1 ? 'month' : 'months'} ago`,
       inYears: (years: number) => `in ${years} ${years === 1 ? 'year' : 'years'}`,
       yearsAgo: (years: number) => `${years} ${years === 1 ? 'year' : 'years'} ago`,
+      inHours: (hours: number) => `in ${hours} ${hours === 1 ? 'hour' : 'hours'}`,
+      hoursAgo: (hours: number) => `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`,
+      inMinutes: (minutes: number) => `in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`,
+      minutesAgo: (minutes: number) => `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ago`,
+      inWorkingDays: (days: number) => `in ${days} working ${days === 1 ? 'day' : 'days'}`,
+      workingDaysAgo: (days: number) => `${days} working ${days === 1 ? 'day' : 'days'} ago`,
       onWeekday: (weekday: string) => `on ${weekday}`,
     },
   },
@@ -46,6 +93,59 @@ export const en: LocaleDefinition = {
     buttons: {
       markComplete: 'Mark Complete',
       setup: 'Setup Task',
+      taskActions: 'Task actions',
+      undo: 'Undo',
+    },
+    actions: {
+      snoozeDays: (days: number) => `Snooze ${days} ${days === 1 ? 'day' : 'days'}`,
+      snoozeWeek: 'Snooze 1 week',
+      snoozeUntil: 'Snooze until…',
+      cancelSnooze: 'Cancel snooze',
+      skip: 'Skip this time…',
+      pause: 'Pause',
+      pauseUntil: 'Pause until…',
+      resume: 'Resume',
+      undoCompletion: 'Undo completion',
+      completeOn: 'Completed on…',
+      completeWithNote: 'Complete with note…',
+    },
+    snoozeModal: {
+      title: 'Snooze until',
+      confirm: 'Snooze',
+      invalidDate: 'Please pick a date after today.',
+    },
+    pauseModal: {
+      title: 'Pause until',
+      confirm: 'Pause',
+    },
+    completionModal: {
+      title: 'Mark complete',
+      note: 'Note',
+      notePlaceholder: 'Optional, e.g. what was replaced or what it cost',
+      confirm: 'Mark Complete',
+    },
+    completeOnModal: {
+      title: 'Completed on',
+      date: 'Date',
+      time: 'Time',
+      confirm: 'Mark Complete',
+      futureDate: 'Please pick a date and time that is not in the future.',
+    },
+    skipModal: {
+      title: 'Skip this time',
+      description: 'The schedule moves on as if the task were done, but the history records it as skipped.',
+      reason: 'Reason (optional)',
+      reasonPlaceholder: 'e.g. the bike is in the shop',
+      confirm: 'Skip',
+    },
+    history: {
+      completed: 'Completed',
+      completedAt: (reading: string) => `Completed at ${reading}`,
+      skipped: (reason: string) => reason ? `Skipped: ${reason}` : 'Skipped',
+      snoozed: (until: string) => `Snoozed until ${until}`,
+      snoozeCancelled: 'Snooze cancelled',
+      paused: (until?: string) => until ? `Paused until ${until}` : 'Paused',
+      resumed: 'Resumed',
     },
     labels: {
       task: 'Task',
@@ -64,6 +164,9 @@ export const en: LocaleDefinition = {
       daysSinceLast: 'Days Since Last',
       daysScheduled: 'Days Scheduled',
       user: 'User',
+      action: 'Action',
+      note: 'Note',
+      resumes: 'Resumes',
       recurringTasks: 'Recurring Tasks',
       totalTasks: 'Total',
       needsAttention: 'Needs Attention',
@@ -74,21 +177,34 @@ export const en: LocaleDefinition = {
       dueWithFrequency: (due: string, frequencyDesc: string) => `Due ${due} (${frequencyDesc})`,
       dueInDays: (days: number, frequencyDesc: string) => `Due in ${days} ${days === 1 ? 'day' : 'days'} (${frequencyDesc})`,
       approximateDueDate: (days: number) => `Approximate due date (${days} ${days === 1 ? 'day' : 'days'} from completion)`,
+      meterLeft: (amount: string) => `${amount} left`,
+      meterOver: (amount: string) => `${amount} over`,
     },
     messages: {
       setupTitle: '⚙️ Setup Recurring Task',
       setupDescription: 'To use this status widget, add the following to your document frontmatter:',
       setupFields: {
-        tags: 'tags: Include "recurring-task"',
-        lastDone: 'last_done: Last completion date (YYYY-MM-DD)',
-        interval: 'interval: How often (number)',
-        intervalUnit: 'interval_unit: days, weeks, months, or years',
+        tags: (tag: string) => `tags: Include "${tag}"`,
+        lastDone: (field: string) => `${field}: Last completion date (YYYY-MM-DD)`,
+        interval: (field: string) => `${field}: How often (number)`,
+        intervalUnit: (field: string) => `${field}: days, weeks, months, or years`,
       },
       noTasks: 'No recurring tasks found',
       noTasksFilter: 'No tasks found matching the current filter.',
       error: (message: string) => `Error: ${message}`,
       loading: 'Loading tasks...',
       failedToUpdateCompletionHistory: 'Failed to update completion history',
+      snoozed: (task: string, until: string) => `Snoozed ${task} until ${until}`,
+      skipped: (task: string) => `Skipped ${task} this time`,
+      paused: (task: string) => `Paused ${task}`,
+      resumed: (task: string) => `Resumed ${task}`,
+      completed: (task: string) => `Completed ${task}`,
+      completedOn: (task: string, date: string) => `Completed ${task} on ${date}`,
+      completionUndone: (task: string) => `Undid completion of ${task}`,
+      cannotUndo: 'The task has changed since it was completed',
+      historyMoved: (entries: number, tasks: number) => `Moved ${entries} history ${entries === 1 ? 'entry' : 'entries'} of ${tasks} ${tasks === 1 ? 'task' : 'tasks'}`,
+      noHistoryToMove: 'All completion history is already in the configured storage',
+      startupCheckProblems: (count: number) => `Recurring Upkeep: ${count} task ${count === 1 ? 'note has' : 'notes have'} an invalid schedule. See the developer console for details.`,
     },
   },
 
@@ -96,7 +212,15 @@ export const en: LocaleDefinition = {
     status: {
       all: 'All tasks',
       overdue: 'Overdue tasks',
+      grace: 'Late, within grace',
+      dueSoon: 'Due soon',
+      inWindow: 'In window',
       upToDate: 'Up to date',
+      snoozed: 'Snoozed',
+      paused: 'Paused',
+      dormant: 'Out of season',
+      notStarted: 'Not started',
+      finished: 'Finished',
     },
     sort: {
       dueDate: 'Due date',
@@ -105,6 +229,46 @@ export const en: LocaleDefinition = {
     },
   },
 
+  settings: {
+    general: {
+      heading: 'General',
+      language: { name: 'Language', desc: 'Language for all text and status messages.', auto: 'Automatic (follow Obsidian)' },
+      defaultFilter: { name: 'Default table filter', desc: 'Filter used by the sidebar and by empty recurring-upkeep-table blocks, e.g. "status:overdue". One condition per line.' },
+      completeButton: { name: 'Completion button', desc: 'When to offer the "Mark Complete" button.', whenDue: 'When due or overdue', always: 'Always (unless done today)', never: 'Never' },
+      dueSoonDays: { name: 'Due soon warning', desc: 'Days before the due date at which a task turns "due soon". Tasks can override this with warn_days. 0 turns the warning off.' },
+      checkTasksOnStartup: { name: 'Check task notes on startup', desc: 'Report task notes whose schedule cannot be read when Obsidian starts.' },
+      timeZone: { name: 'Time zone', desc: 'Time zone that decides when a day starts, as an IANA name like "Europe/Berlin" or "America/New_York". Leave empty to use this device\'s time zone; set it when people in different time zones share the vault.', invalid: (timeZone: string) => `"${timeZone}" is not a known time zone; the previous setting was kept.` },
+    },
+    history: {
+      heading: 'Completion history',
+      recordHistory: { name: 'Record completion history', desc: 'Add an entry to the completion history of a task each time it is marked complete.' },
+      recordUser: { name: 'Record user name', desc: 'Include the system user name in each completion history row.' },
+      historyStorage: {
+        name: 'History storage',
+        desc: 'Where completion history is kept. Run "Move completion history to the configured storage" to move existing history after changing this.',
+        table: 'Table in the task note',
+        frontmatter: 'List in the frontmatter (history:)',
+        sidecar: 'Table in a separate note (Task.history.md)',
+        log: 'Vault-wide log file (JSON lines)',
+      },
+      historyLogFile: { name: 'History log file', desc: 'Vault path of the log file used by the log storage.' },
+    },
+    workingDays: {
+      heading: 'Working days',
+      workingDaysOnly: { name: 'Count working days only', desc: 'Count day intervals in working days and move due dates off weekends and holidays. Tasks can override this with working_days: true or false.' },
+      holidaysFile: { name: 'Holidays file', desc: 'Vault path of a note listing holiday dates (YYYY-MM-DD) or of an .ics calendar file, e.g. "Holidays.md".' },
+    },
+    schema: {
+      heading: 'Task schema',
+      description: 'Which notes count as recurring tasks and which frontmatter fields hold their schedule. Change these to match an existing vault instead of renaming fields in every note.',
+      taskTag: { name: 'Task tag', desc: 'Notes with this tag are recurring tasks. Leave empty to only use the type field.' },
+      taskType: { name: 'Task type', desc: 'Notes whose "type" field has this value are recurring tasks. Leave empty to only use the tag.' },
+      lastDoneField: { name: 'Last done field', desc: 'Frontmatter field holding the last completion date.' },
+      intervalField: { name: 'Interval field', desc: 'Frontmatter field holding how often the task repeats (a number).' },
+      intervalUnitField: { name: 'Interval unit field', desc: 'Frontmatter field holding the unit of the interval (days, weeks, months or years).' },
+    },
+  },
+
   help: {
     tooltips: {
       due: 'When this task is due for completion',
@@ -5,6 +5,20 @@ export interface LocaleDefinition {
     overdue: (days: number) => string;
     dueToday: string;
     neverCompleted: string;
+    dueSoon: (days: number) => string;
+    inGrace: (daysLate: number, graceDays: number) => string;
+    overdueBy: (duration: string) => string;
+    dueIn: (duration: string) => string;
+    lateInGrace: (late: string, grace: string) => string;
+    meterOverdue: (amount: string) => string;
+    meterDueSoon: (amount: string) => string;
+    snoozed: (until: string) => string;
+    paused: (until?: string) => string;
+    dormant: (until: string) => string;
+    notStarted: (startDate: string) => string;
+    inWindow: (until: string) => string;
+    notYetDue: (opens: string) => string;
+    finished: string;
   };
 
   // Time units and frequencies
@@ -18,13 +32,33 @@ export interface LocaleDefinition {
       months: string;
       year: string;
       years: string;
+      hour: string;
+      hours: string;
+      minute: string;
+      minutes: string;
     };
     frequencies: {
+      hourly: string;
       daily: string;
       weekly: string;
       monthly: string;
       yearly: string;
       every: (count: number, unit: string) => string;
+      whicheverFirst: (frequency: string, amount: string) => string;
+      everyBetween: (min: number, max: number, unit: string) => string;
+    };
+    rules: {
+      on: (frequency: string, rule: string) => string;
+      ordinal: (n: number) => string;
+      last: string;
+      lastDay: string;
+      dayOfMonth: (ordinal: string) => string;
+      nthWeekday: (ordinal: string, weekday: string) => string;
+      list: (items: string[]) => string;
+      nthLast: (ordinal: string) => string;
+      inMonths: (frequency: string, months: string) => string;
+      times: (frequency: string, count: number) => string;
+      until: (frequency: string, date: string) => string;
     };
     relative: {
       today: string;
@@ -38,6 +72,12 @@ export interface LocaleDefinition {
       monthsAgo: (months: number) => string;
       inYears: (years: number) => string;
       yearsAgo: (years: number) => string;
+      inHours: (hours: number) => string;
+      hoursAgo: (hours: number) => string;
+      inMinutes: (minutes: number) => string;
+      minutesAgo: (minutes: number) => string;
+      inWorkingDays: (days: number) => string;
+      workingDaysAgo: (days: number) => string;
       onWeekday: (weekday: string) => string;
     };
   };
@@ -47,6 +87,59 @@ export interface LocaleDefinition {
     buttons: {
       markComplete: string;
       setup: string;
+      taskActions: string;
+      undo: string;
+    };
+    actions: {
+      snoozeDays: (days: number) => string;
+      snoozeWeek: string;
+      snoozeUntil: string;
+      cancelSnooze: string;
+      skip: string;
+      pause: string;
+      pauseUntil: string;
+      resume: string;
+      undoCompletion: string;
+      completeOn: string;
+      completeWithNote: string;
+    };
+    snoozeModal: {
+      title: string;
+      confirm: string;
+      invalidDate: string;
+    };
+    pauseModal: {
+      title: string;
+      confirm: string;
+    };
+    completionModal: {
+      title: string;
+      note: string;
+      notePlaceholder: string;
+      confirm: string;
+    };
+    completeOnModal: {
+      title: string;
+      date: string;
+      time: string;
+      confirm: string;
+      futureDate: string;
+    };
+    skipModal: {
+      title: string;
+      description: string;
+      reason: string;
+      reasonPlaceholder: string;
+      confirm: string;
+    };
+    history: {
+      completed: string;
+      completedAt: (reading: string) => string;
+      skipped: (reason: string) => string;
+      snoozed: (until: string) => string;
+      snoozeCancelled: string;
+      paused: (until?: string) => string;
+      resumed: string;
     };
     labels: {
       task: string;
@@ -65,6 +158,9 @@ export interface LocaleDefinition {
       daysSinceLast: string;
       daysScheduled: string;
       user: string;
+      action: string;
+      note: string;
+      resumes: string;
       recurringTasks: string;
       totalTasks: string;
       needsAttention: string;
@@ -75,21 +171,34 @@ export interface LocaleDefinition {
       dueWithFrequency: (due: string, frequencyDesc: string) => string;
       dueInDays: (days: number, frequencyDesc: string) => string;
       approximateDueDate: (days: number) => string;
+      meterLeft: (amount: string) => string;
+      meterOver: (amount: string) => string;
     };
     messages: {
       setupTitle: string;
       setupDescription: string;
       setupFields: {
-        tags: string;
-        lastDone: string;
-        interval: string;
-        intervalUnit: string;
+        tags: (tag: string) => string;
+        lastDone: (field: string) => string;
+        interval: (field: string) => string;
+        intervalUnit: (field: string) => string;
       };
       noTasks: string;
       noTasksFilter: string;
       error: (message: string) => string;
       loading: string;
       failedToUpdateCompletionHistory: string;
+      startupCheckProblems: (count: number) => string;
+      snoozed: (task: string, until: string) => string;
+      skipped: (task: string) => string;
+      paused: (task: string) => string;
+      resumed: (task: string) => string;
+      completed: (task: string) => string;
+      completedOn: (task: string, date: string) => string;
+      completionUndone: (task: string) => string;
+      cannotUndo: string;
+      historyMoved: (entries: number, tasks: number) => string;
+      noHistoryToMove: string;
     };
   };
 
@@ -98,7 +207,15 @@ export interface LocaleDefinition {
     status: {
       all: string;
       overdue: string;
+      grace: string;
+      dueSoon: string;
+      inWindow: string;
       upToDate: string;
+      snoozed: string;
+      paused: string;
+      dormant: string;
+      notStarted: string;
+      finished: string;
     };
     sort: {
       dueDate: string;
@@ -107,6 +224,40 @@ export interface LocaleDefinition {
     };
   };
 
+  // Settings tab
+  settings: {
+    general: {
+      heading: string;
+      language: { name: string; desc: string; auto: string };
+      defaultFilter: { name: string; desc: string };
+      completeButton: { name: string; desc: string; whenDue: string; always: string; never: string };
+      dueSoonDays: { name: string; desc: string };
+      checkTasksOnStartup: { name: string; desc: string };
+      timeZone: { name: string; desc: string; invalid: (timeZone: string) => string };
+    };
+    history: {
+      heading: string;
+      recordHistory: { name: string; desc: string };
+      recordUser: { name: string; desc: string };
+      historyStorage: { name: string; desc: string; table: string; frontmatter: string; sidecar: string; log: string };
+      historyLogFile: { name: string; desc: string };
+    };
+    workingDays: {
+      heading: string;
+      workingDaysOnly: { name: string; desc: string };
+      holidaysFile: { name: string; desc: string };
+    };
+    schema: {
+      heading: string;
+      description: string;
+      taskTag: { name: string; desc: string };
+      taskType: { name: string; desc: string };
+      lastDoneField: { name: string; desc: string };
+      intervalField: { name: string; desc: string };
+      intervalUnitField: { name: string; desc: string };
+    };
+  };
+
   // Tooltips and help text
   help: {
     tooltips: {
@@ -1,45 +1,27 @@
-import { Plugin, MarkdownPostProcessorContext, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
-import { UpkeepTask, ProcessedTask } from './types';
-import { TaskProcessor } from './utils/TaskProcessor';
+import { Plugin, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownView, TFile, WorkspaceLeaf, Notice, debounce } from 'obsidian';
+import { UpkeepTask, ProcessedTask, TaskSource } from './types';
 import { RecurringUpkeepUtils } from './utils/RecurringUpkeepUtils';
 import { RecurringUpkeepSchedulerTests } from './TestSuite';
 import { UpkeepTableView } from './views/UpkeepTableView';
 import { UpkeepStatusView } from './views/UpkeepStatusView';
 import { UpkeepSidebarView, UPKEEP_SIDEBAR_VIEW_TYPE } from './views/UpkeepSidebarView';
+import { TaskActionsMenu } from './components/TaskActionsMenu';
 import { I18nUtils } from './i18n/I18nUtils';
+import { MetadataCacheTaskSource } from './utils/MetadataCacheTaskSource';
+import { DataviewTaskSource, DataviewAPI } from './utils/DataviewTaskSource';
+import { TaskIndex } from './utils/TaskIndex';
+import { HistoryStore } from './utils/HistoryStore';
+import { SettingsUtils } from './utils/SettingsUtils';
+import { StartupChecks } from './utils/StartupChecks';
+import { WorkCalendar } from './utils/WorkCalendar';
+import { UpkeepSettingTab } from './views/UpkeepSettingTab';
+import { RecurringUpkeepSettings, DEFAULT_SETTINGS } from './settings';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from './constants';
 
-// Type definitions for Dataview page data
-// Dataview provides file-like objects with similar properties to TFile but they're not actual TFile instances
-interface DataviewEnhancedFile {
-  name: string;
-  path: string;
-  basename?: string;
-  extension?: string;
-  tags?: string[];
-  stat?: {
-    ctime: number;
-    mtime: number;
-    size: number;
-  };
-}
-
-interface DataviewPage {
-  file: DataviewEnhancedFile;
-  last_done?: string;
-  interval?: number;
-  interval_unit?: string;
-  type?: string;
-}
-
-// Type definitions for Dataview API
-interface DataviewAPI {
-  pages(): {
-    where(predicate: (p: DataviewPage) => boolean): {
-      values: DataviewPage[];
-    };
-  };
-}
+// Settings that decide which notes are tasks or how views show them
+const INDEX_SETTINGS: (keyof RecurringUpkeepSettings)[] = [
+  'language', 'defaultFilter', 'completeButton', 'dueSoonDays', 'timeZone', 'workingDaysOnly', 'schema'
+];
 
 // Type definitions for Obsidian plugin system
 interface ObsidianPluginSystem {
@@ -60,8 +42,12 @@ declare global {
 }
 
 export default class RecurringUpkeepSchedulerPlugin extends Plugin {
+  public settings: RecurringUpkeepSettings;
   public dataviewApi: DataviewAPI | null = null;
+  public taskIndex: TaskIndex;
   private sidebarView: UpkeepSidebarView | null = null;
+  // Settings as last applied, to tell which ones a save changed
+  private appliedSettings: RecurringUpkeepSettings;
 
   async onload() {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -69,9 +55,11 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
     }
 
     try {
+      await this.loadSettings();
+
       // Phase 1: Initialize i18n system early in plugin lifecycle
       try {
-        I18nUtils.init(this.app);
+        this.applyLanguage();
         const localeInfo = I18nUtils.getLocaleInfo();
         
         if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -85,7 +73,43 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
         // Continue loading plugin even if i18n fails
       }
 
+      // Task index is built lazily on first query and kept current from vault events
+      this.taskIndex = new TaskIndex(this.app, new MetadataCacheTaskSource(this.app));
+      this.taskIndex.registerEvents(this);
+
+      // Dataview may finish loading after us, so check again once the layout is ready
       this.checkDataviewDependency();
+      this.app.workspace.onLayoutReady(() => {
+        this.checkDataviewDependency();
+        this.taskIndex.setSource(this.createTaskSource());
+        void this.loadHolidays();
+
+        if (this.settings.checkTasksOnStartup) {
+          this.runStartupChecks();
+        }
+      });
+
+      // Edits to the holidays file move working-day due dates
+      this.registerEvent(this.app.vault.on('modify', (file) => {
+        if (this.settings.holidaysFile && file.path === this.settings.holidaysFile) {
+          void this.loadHolidays();
+        }
+      }));
+
+      // Completion history is kept by note path and schedule name, so it follows renames
+      this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile && file.extension === 'md') {
+          this.moveHistory(oldPath, () => HistoryStore.renameNote(this.app, file, oldPath));
+        }
+      }));
+      this.registerEvent(this.taskIndex.on('schedule-renamed', (path, previousName, name) => {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+          this.moveHistory(path, () => HistoryStore.renameSchedule(this.app, file, previousName, name));
+        }
+      }));
+
+      this.addSettingTab(new UpkeepSettingTab(this.app, this));
 
       // Register sidebar view
       this.registerView(
@@ -107,6 +131,48 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
         }
       });
 
+      // Pause or resume the task note that is currently open, with all of its schedules
+      this.addCommand({
+        id: "toggle-pause-current-task",
+        name: "Pause or resume current task",
+        checkCallback: (checking) => {
+          const file = this.app.workspace.getActiveFile();
+          const tasks = file ? this.taskIndex.getProcessedTasksForPath(file.path) : [];
+          if (tasks.length === 0) {
+            return false;
+          }
+          if (!checking) {
+            new TaskActionsMenu(this.app).togglePauseAll(tasks);
+          }
+          return true;
+        }
+      });
+
+      // Take back the most recent completion, e.g. after a misclick
+      this.addCommand({
+        id: "undo-last-completion",
+        name: "Undo last completion",
+        checkCallback: (checking) => {
+          const completion = RecurringUpkeepUtils.getUndoableCompletion();
+          if (!completion) {
+            return false;
+          }
+          if (!checking) {
+            new TaskActionsMenu(this.app).undoCompletion(completion);
+          }
+          return true;
+        }
+      });
+
+      // Move existing history into the storage chosen in the settings
+      this.addCommand({
+        id: "migrate-completion-history",
+        name: "Move completion history to the configured storage",
+        callback: () => {
+          this.migrateHistory();
+        }
+      });
+
       // Register table view codeblock processor
       this.registerMarkdownCodeBlockProcessor('recurring-upkeep-table', (source, el, ctx) => {
         this.renderUpkeepTable(source, el, ctx);
@@ -142,6 +208,94 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
 
 
 
+  async loadSettings(): Promise<void> {
+    const data = await this.loadData();
+    this.settings = {
+      ...DEFAULT_SETTINGS,
+      ...data,
+      schema: { ...DEFAULT_SETTINGS.schema, ...data?.schema }
+    };
+    this.appliedSettings = this.copySettings();
+    SettingsUtils.init(this.settings);
+  }
+
+  async saveSettings(): Promise<void> {
+    const previous = this.appliedSettings;
+    this.appliedSettings = this.copySettings();
+    const changed = (key: keyof RecurringUpkeepSettings) => JSON.stringify(previous[key]) !== JSON.stringify(this.settings[key]);
+
+    SettingsUtils.init(this.settings);
+    await this.saveData(this.settings);
+    if (changed('language')) {
+      this.applyLanguage();
+    }
+
+    // Schema changes decide which notes are tasks, and the others change how views show
+    // them; views re-render on rebuild. History and startup settings need neither.
+    if (changed('holidaysFile')) {
+      await this.loadHolidays();
+    } else if (INDEX_SETTINGS.some(key => changed(key))) {
+      this.requestIndexRebuild();
+    }
+  }
+
+  private copySettings(): RecurringUpkeepSettings {
+    return { ...this.settings, schema: { ...this.settings.schema } };
+  }
+
+  private async loadHolidays(): Promise<void> {
+    await WorkCalendar.load(this.app, this.settings.holidaysFile);
+    this.requestIndexRebuild();
+  }
+
+  private applyLanguage(): void {
+    const language = this.settings.language;
+    I18nUtils.init(this.app, language === 'auto' ? undefined : language);
+  }
+
+  private async migrateHistory(): Promise<void> {
+    let entries = 0;
+    let tasks = 0;
+    for (const task of this.taskIndex.getTasks()) {
+      try {
+        const moved = await RecurringUpkeepUtils.migrateHistory(this.app, task.file.path, task.schedule_index);
+        entries += moved;
+        tasks += moved > 0 ? 1 : 0;
+      } catch (error) {
+        console.error('[Recurring Upkeep] Moving completion history failed', {
+          filePath: task.file.path,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        new Notice(I18nUtils.t.ui.messages.error(`${task.file.path}: ${(error as Error).message}`));
+      }
+    }
+
+    new Notice(tasks > 0 ? I18nUtils.t.ui.messages.historyMoved(entries, tasks) : I18nUtils.t.ui.messages.noHistoryToMove);
+  }
+
+  private moveHistory(path: string, move: () => Promise<void>): void {
+    move().catch(error => {
+      console.error('[Recurring Upkeep] Moving completion history after a rename failed', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  private runStartupChecks(): void {
+    const problems = StartupChecks.findProblems(this.app);
+    if (problems.length === 0) {
+      return;
+    }
+
+    console.warn('[Recurring Upkeep] Task notes with problems:', problems);
+    new Notice(I18nUtils.t.ui.messages.startupCheckProblems(problems.length));
+  }
+
+  private requestIndexRebuild = debounce(() => {
+    this.taskIndex.rebuild();
+  }, 500, true);
+
   private async runTests() {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.info('[Recurring Upkeep] Running tests in development mode...');
@@ -188,30 +342,28 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
 
   private checkDataviewDependency(): void {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-      console.debug('[Recurring Upkeep] Checking Dataview dependency...');
+      console.debug('[Recurring Upkeep] Checking for optional Dataview backend...');
     }
 
     // Safe access to plugin system using type assertion
     const pluginSystem = this.app as unknown as { plugins: ObsidianPluginSystem };
     const dataviewPlugin = pluginSystem.plugins.plugins.dataview;
 
-    if (!dataviewPlugin) {
-      console.error('[Recurring Upkeep] Dataview plugin not found');
-      console.error('Recurring Upkeep Scheduler: Dataview plugin is required but not found');
-      return;
-    }
-
-    this.dataviewApi = dataviewPlugin.api || null;
+    this.dataviewApi = dataviewPlugin?.api || null;
 
-    if (!this.dataviewApi) {
-      console.error('[Recurring Upkeep] Dataview API not available');
-      console.error('Recurring Upkeep Scheduler: Dataview API is not available');
-      return;
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Task source selected', {
+        source: this.dataviewApi ? 'dataview' : 'metadata-cache'
+      });
     }
+  }
 
-    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-      console.info('[Recurring Upkeep] Dataview dependency check passed');
+  private createTaskSource(): TaskSource {
+    // Dataview is an optional backend; the metadata cache works everywhere
+    if (this.dataviewApi) {
+      return new DataviewTaskSource(this.dataviewApi);
     }
+    return new MetadataCacheTaskSource(this.app);
   }
 
   private async renderUpkeepTable(filterQuery: string, container: HTMLElement, ctx: MarkdownPostProcessorContext): Promise<void> {
@@ -223,28 +375,17 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
     }
 
     try {
-      if (!this.dataviewApi) {
-        container.createEl('div', {
-          text: 'Dataview plugin is required for Recurring Upkeep Scheduler',
-          cls: 'recurring-upkeep-error'
-        });
-        return;
-      }
-
-      const tasks = await this.getUpkeepTasks();
-      const processedTasks = TaskProcessor.processTasks(tasks);
-      const sortedTasks = TaskProcessor.sortTasks(processedTasks);
+      const sortedTasks = this.taskIndex.getProcessedTasks();
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.debug('[Recurring Upkeep] Tasks processed for table', {
-          rawTaskCount: tasks.length,
-          processedTaskCount: processedTasks.length,
           sortedTaskCount: sortedTasks.length
         });
       }
 
       const tableView = new UpkeepTableView(this.app, this, filterQuery);
       tableView.render(container, sortedTasks);
+      this.registerRenderedWidget(container, ctx, () => tableView.destroy());
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.info('[Recurring Upkeep] Upkeep table rendered successfully');
@@ -291,8 +432,9 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
         return;
       }
 
-      const statusView = new UpkeepStatusView(this.app);
+      const statusView = new UpkeepStatusView(this.app, this);
       await statusView.render(container, file);
+      this.registerRenderedWidget(container, ctx, () => statusView.destroy());
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.info('[Recurring Upkeep] Upkeep status widget rendered successfully', {
@@ -315,75 +457,17 @@ export default class RecurringUpkeepSchedulerPlugin extends Plugin {
     }
   }
 
-  async getUpkeepTasks(): Promise<UpkeepTask[]> {
-    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-      console.debug('[Recurring Upkeep] Fetching upkeep tasks from Dataview...');
-    }
-
-    if (!this.dataviewApi) {
-      throw new Error('Dataview API not available');
-    }
-
-    try {
-      const pages = this.dataviewApi.pages().where((p: DataviewPage) => {
-        // Check if it's a valid file-like object with required properties
-        if (!p.file || !p.file.name || !p.file.path) {
-          return false;
-        }
-        
-        // Check for recurring task markers
-        return p.file.tags?.includes("recurring-task") ||
-               p.file.tags?.includes("#recurring-task") ||
-               p.type === "recurring-task";
-      });
-
-      const tasks: UpkeepTask[] = [];
-
-      for (const page of pages.values) {
-        // Check if it's a valid file-like object with required properties
-        if (!page.file || !page.file.name || !page.file.path) {
-          continue;
-        }
-        
-        const task: UpkeepTask = {
-          file: page.file,
-          last_done: page.last_done,
-          interval: page.interval || 0,
-          interval_unit: page.interval_unit || '',
-          type: page.type,
-          tags: page.file.tags || []
-        };
-
-        if (task.interval && task.interval_unit) {
-          tasks.push(task);
-
-          if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-            console.debug('[Recurring Upkeep] Found valid upkeep task', {
-              fileName: task.file.name,
-              interval: task.interval,
-              intervalUnit: task.interval_unit,
-              lastDone: task.last_done
-            });
-          }
-        }
-      }
-
-      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        console.info('[Recurring Upkeep] Tasks fetched from Dataview', {
-          totalTasksFound: tasks.length,
-          tasksWithInterval: tasks.filter(t => t.interval && t.interval_unit).length
-        });
-      }
+  /**
+   * Tie a code block widget's task index listeners to the lifetime of its rendered block
+   */
+  private registerRenderedWidget(container: HTMLElement, ctx: MarkdownPostProcessorContext, destroy: () => void): void {
+    const child = new MarkdownRenderChild(container);
+    child.register(destroy);
+    ctx.addChild(child);
+  }
 
-      return tasks;
-    } catch (error) {
-      console.error('[Recurring Upkeep] Error fetching tasks from Dataview', {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      console.error('Error fetching tasks from Dataview:', error);
-      throw new Error(`Failed to fetch tasks: ${(error as Error).message}`);
-    }
+  async getUpkeepTasks(): Promise<UpkeepTask[]> {
+    return this.taskIndex.getTasks();
   }
 
   async activateView() {
@@ -0,0 +1,62 @@
+import { LocaleKey } from './i18n/types';
+
+// Which marker identifies a task note and which frontmatter keys hold its schedule
+export interface TaskSchemaSettings {
+  taskTag: string;
+  taskType: string;
+  lastDoneField: string;
+  intervalField: string;
+  intervalUnitField: string;
+}
+
+// 'auto' follows Obsidian's interface language
+export type LanguageSetting = 'auto' | LocaleKey;
+
+// When the "Mark Complete" button is offered
+export type CompleteButtonPolicy = 'when-due' | 'always' | 'never';
+
+// Where completion history goes: a table in the note, a `history:` frontmatter list,
+// a table in a `<note>.history.md` sidecar note, or one JSON line per entry in a vault-wide log
+export type HistoryStorage = 'table' | 'frontmatter' | 'sidecar' | 'log';
+
+export interface RecurringUpkeepSettings {
+  language: LanguageSetting;
+  defaultFilter: string;
+  recordHistory: boolean;
+  recordUser: boolean;
+  historyStorage: HistoryStorage;
+  // Vault path of the log file used by the 'log' history storage
+  historyLogFile: string;
+  completeButton: CompleteButtonPolicy;
+  dueSoonDays: number;
+  checkTasksOnStartup: boolean;
+  // IANA time zone that decides where days begin; empty uses the device's zone
+  timeZone: string;
+  // Count day intervals in working days and keep due dates off weekends and holidays
+  workingDaysOnly: boolean;
+  // Vault path of a note listing holidays, or of an .ics file
+  holidaysFile: string;
+  schema: TaskSchemaSettings;
+}
+
+export const DEFAULT_SETTINGS: RecurringUpkeepSettings = {
+  language: 'auto',
+  defaultFilter: '',
+  recordHistory: true,
+  recordUser: true,
+  historyStorage: 'table',
+  historyLogFile: 'Upkeep history.jsonl',
+  completeButton: 'when-due',
+  dueSoonDays: 3,
+  checkTasksOnStartup: false,
+  timeZone: '',
+  workingDaysOnly: false,
+  holidaysFile: '',
+  schema: {
+    taskTag: 'recurring-task',
+    taskType: 'recurring-task',
+    lastDoneField: 'last_done',
+    intervalField: 'interval',
+    intervalUnitField: 'interval_unit',
+  },
+};
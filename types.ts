@@ -1,4 +1,6 @@
 import { TFile } from 'obsidian';
+import { HistoryStorage } from './settings';
+import { HistoryAction } from './utils/CompletionHistoryParser';
 
 // Generic file interface that can handle both TFile and Dataview file objects
 export interface FileInfo {
@@ -18,21 +20,73 @@ export interface UpkeepTask {
   last_done?: string;
   interval: number;
   interval_unit: string;
+  // Flexible window: done every interval_min to interval_max units
+  interval_min?: number;
+  interval_max?: number;
   type?: string;
   tags?: string[];
+  schedule?: string;
+  anchor_date?: string;
+  on?: string | number | Array<string | number>;
+  rrule?: string;
+  warn_days?: number;
+  grace?: string | number;
+  snoozed_until?: string;
+  last_skipped?: string;
+  paused?: boolean | string;
+  paused_until?: string;
+  active_months?: string | number | Array<string | number>;
+  active_between?: string | string[];
+  start_date?: string;
+  end_date?: string;
+  max_occurrences?: number;
+  completed_occurrences?: number;
+  meter?: unknown;
+  meter_field?: string;
+  meter_interval?: number;
+  meter_unit?: string;
+  last_meter?: number;
+  working_days?: boolean | string;
+  // Current reading of the meter note, filled in by the task index
+  meter_reading?: number | null;
+  // Measurements asked for on completion and logged as history columns, e.g. [front_bar, rear_bar]
+  record?: string[] | string;
+  // Position and name of the entry in a note's `schedules:` list; unset for single-schedule notes
+  schedule_index?: number;
+  schedule_name?: string;
   [key: string]: any;
 }
 
+// Semantic task state; drives colours, filters and sorting
+export type TaskState = 'overdue' | 'grace' | 'due-soon' | 'in-window' | 'up-to-date' | 'snoozed' | 'paused'
+  | 'dormant' | 'not-started' | 'finished';
+
 export interface TaskStatus {
+  state: TaskState;
   status: string;
   daysRemaining: number;
   calculatedNextDue: string | null;
+  // Days a task may be late before it counts as overdue (0 without a grace window)
+  graceDays: number;
+  // Use left on the meter for usage-based tasks (negative once it is over)
+  meterRemaining?: number | null;
+  // Whether the meter rather than the calendar decides the status
+  dueByMeter?: boolean;
+  // Date the flexible window opens (interval_min after the last completion)
+  windowOpens?: string | null;
 }
 
 export interface ProcessedTask extends UpkeepTask, TaskStatus {}
 
+// Backend that knows how to find recurring tasks in the vault
+export interface TaskSource {
+  getUpkeepTasks(): UpkeepTask[];
+  // Every task a note declares: one per `schedules:` entry, else at most one
+  getTasksForFile(file: TFile): UpkeepTask[];
+}
+
 export interface FilterQuery {
-  status?: ('all' | 'overdue' | 'up-to-date') | ('all' | 'overdue' | 'up-to-date')[];
+  status?: ('all' | TaskState) | ('all' | TaskState)[];
   tag?: string | string[];
   interval?: string | string[];
   limit?: number;
@@ -50,4 +104,64 @@ export interface MarkCompleteResult {
   success: boolean;
   today?: string;
   error?: string;
+  // Set by markTaskComplete, for undoing the completion
+  completion?: CompletionRecord;
+  // Set when the task was updated but its history could not be written
+  historyError?: string;
+}
+
+// Entered in the completion modal: a value per `record` field and a free-text note
+export interface CompletionDetails {
+  measurements: Record<string, string>;
+  note: string;
+}
+
+// What a completion changed, so it can be undone
+export interface CompletionRecord {
+  filePath: string;
+  scheduleIndex?: number;
+  taskName: string;
+  // Frontmatter fields before completing; undefined means the field was absent
+  previousFields: Record<string, unknown>;
+  // `last_done` as written by the completion
+  lastDone: string;
+  // Storage the history entry went to
+  historyStorage: HistoryStorage;
+  // Text added to the history: the table row, or the whole section when it was created;
+  // the entry's JSON for the frontmatter list and the log
+  historyText: string | null;
+  createdHistorySection: boolean;
+  // The completion after a backdated entry, whose days since last was recounted
+  recountedHistory?: HistoryEdit;
+}
+
+// A history entry rewritten when another was added before it: its text before and after
+export interface HistoryEdit {
+  original: string;
+  updated: string;
+}
+
+// What a history entry records, apart from how the current language words it in a table
+export interface HistoryEvent {
+  action: HistoryAction;
+  // Why the occurrence was skipped
+  reason?: string;
+  // Meter reading the task was completed at, e.g. "1250 km"
+  reading?: string;
+  // Date a snooze or pause lasts until
+  until?: string;
+  // The Action cell as written, for actions the plugin does not know
+  text?: string;
+}
+
+// A history entry kept in a `history:` frontmatter list or the history log instead of a table row
+export interface HistoryItem extends HistoryEvent {
+  // Local YYYY-MM-DDTHH:mm, or YYYY-MM-DD for hand-written entries without a time
+  date: string;
+  days_since_last: number | null;
+  days_scheduled: number | null;
+  user: string | null;
+  note?: string;
+  // Measurements of `record` fields, by field name
+  [field: string]: string | number | null | undefined;
 }
\ No newline at end of file
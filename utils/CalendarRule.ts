@@ -0,0 +1,245 @@
+import { DateUtils } from './DateUtils';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+/**
+ * One day selector of an `on:` rule
+ * Weekdays use JavaScript numbering (0 = Sunday); negative nth and day count from
+ * the end of the month (-1 = last)
+ */
+export type CalendarRulePart =
+  | { kind: 'weekday'; weekday: number }
+  | { kind: 'nth-weekday'; nth: number; weekday: number }
+  | { kind: 'month-day'; day: number };
+
+// Span of time that repeats every `interval` periods; weekly periods start on Monday
+export type CalendarPeriod = 'day' | 'week' | 'month' | 'year';
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0, sonntag: 0,
+  monday: 1, mon: 1, montag: 1,
+  tuesday: 2, tue: 2, tues: 2, dienstag: 2,
+  wednesday: 3, wed: 3, mittwoch: 3,
+  thursday: 4, thu: 4, thurs: 4, donnerstag: 4,
+  friday: 5, fri: 5, freitag: 5,
+  saturday: 6, sat: 6, samstag: 6, sonnabend: 6,
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1, letzter: -1, letzten: -1,
+};
+
+// Same safety limit as DateUtils.calculateFixedNextDueDate
+const MAX_PERIODS = 10000;
+
+/**
+ * Calendar-rule recurrences, written as an `on:` field next to interval and interval_unit
+ *
+ * The interval still says how often the period repeats; the rule picks the days within it:
+ * - `interval: 1, interval_unit: weeks, on: [monday, thursday]`
+ * - `interval: 2, interval_unit: weeks, on: saturday` (every other Saturday)
+ * - `interval: 1, interval_unit: months, on: last friday`
+ * - `interval: 3, interval_unit: months, on: 15` (the 15th of every quarter)
+ *
+ * Yearly rules apply within the month of the task's anchor (anchor_date, or else last_done).
+ * Weeks start on Monday.
+ */
+export class CalendarRule {
+  /**
+   * Parse an `on:` value (string, number or list) for the given interval unit
+   * Returns null when there is no rule or any part of it cannot be used with the unit
+   */
+  static parse(value: unknown, intervalUnit: string): CalendarRulePart[] | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const period = this.normalizePeriod(intervalUnit);
+    if (!period) {
+      return null;
+    }
+
+    const entries = (Array.isArray(value) ? value : [value])
+      .flatMap(entry => String(entry).toLowerCase().split(/,|\s+and\s+|\s+und\s+/))
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0);
+
+    const parts: CalendarRulePart[] = [];
+    for (const entry of entries) {
+      const part = this.parsePart(entry);
+
+      // Nth weekdays and days of the month only make sense inside months
+      if (!part || (part.kind !== 'weekday' && period === 'week')) {
+        if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+          console.warn('[Recurring Upkeep] Unusable calendar rule', { value, entry, intervalUnit });
+        }
+        return null;
+      }
+
+      parts.push(part);
+    }
+
+    return parts.length > 0 ? parts : null;
+  }
+
+  /**
+   * First date matching the rule after lastDone (or on/after the base date when never done)
+   * Periods are counted from the period containing baseDate, every `interval` periods
+   */
+  static nextDueDate(
+    parts: CalendarRulePart[],
+    interval: number,
+    intervalUnit: string,
+    baseDate: string,
+    lastDone?: string
+  ): string | null {
+    const period = this.normalizePeriod(intervalUnit);
+    const step = Number(interval);
+    const base = DateUtils.parseLocalDate(baseDate);
+
+    if (!period || isNaN(step) || step <= 0 || isNaN(base.getTime())) {
+      return null;
+    }
+
+    let from = new Date(base);
+    if (lastDone) {
+      const lastDoneDate = DateUtils.parseLocalDate(lastDone);
+      if (isNaN(lastDoneDate.getTime())) {
+        return null;
+      }
+      lastDoneDate.setDate(lastDoneDate.getDate() + 1);
+      from = lastDoneDate > from ? lastDoneDate : from;
+    }
+
+    const firstPeriod = this.startOfPeriod(base, period);
+
+    for (let k = 0; k < MAX_PERIODS; k++) {
+      const periodStart = this.addPeriods(firstPeriod, k * step, period);
+      const periodEnd = this.addPeriods(periodStart, 1, period);
+
+      if (periodEnd <= from) {
+        continue;
+      }
+
+      const day = periodStart < from ? new Date(from) : new Date(periodStart);
+      for (; day < periodEnd; day.setDate(day.getDate() + 1)) {
+        if (period === 'year' && day.getMonth() !== base.getMonth()) {
+          continue;
+        }
+        if (this.matches(day, parts)) {
+          return DateUtils.toDateString(day);
+        }
+      }
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.warn('[Recurring Upkeep] No date matches calendar rule', { parts, interval, intervalUnit, baseDate });
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a date is selected by any part of the rule
+   */
+  static matches(date: Date, parts: CalendarRulePart[]): boolean {
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+    return parts.some(part => {
+      switch (part.kind) {
+        case 'weekday':
+          return date.getDay() === part.weekday;
+        case 'nth-weekday':
+          if (date.getDay() !== part.weekday) return false;
+          return part.nth > 0
+            ? Math.ceil(date.getDate() / 7) === part.nth
+            : Math.ceil((daysInMonth - date.getDate() + 1) / 7) === -part.nth;
+        case 'month-day':
+          // Days past the end of a short month fall on its last day
+          return part.day > 0
+            ? date.getDate() === Math.min(part.day, daysInMonth)
+            : date.getDate() === Math.max(1, daysInMonth + part.day + 1);
+      }
+    });
+  }
+
+  private static parsePart(entry: string): CalendarRulePart | null {
+    const words = entry.split(/\s+/).filter(word => word !== 'the' && word !== 'of' && word !== 'month');
+
+    if (words.length === 1) {
+      const word = words[0];
+      if (word in WEEKDAYS) {
+        return { kind: 'weekday', weekday: WEEKDAYS[word] };
+      }
+      if (word === 'last') {
+        return { kind: 'month-day', day: -1 };
+      }
+      const day = this.parseOrdinal(word);
+      return day !== null && day > 0 && day <= 31 ? { kind: 'month-day', day } : null;
+    }
+
+    if (words.length === 2) {
+      const nth = this.parseOrdinal(words[0]);
+      if (nth === null) {
+        return null;
+      }
+      if (words[1] === 'day') {
+        return nth === -1 || nth <= 31 ? { kind: 'month-day', day: nth } : null;
+      }
+      if (words[1] in WEEKDAYS && (nth === -1 || nth <= 5)) {
+        return { kind: 'nth-weekday', nth, weekday: WEEKDAYS[words[1]] };
+      }
+    }
+
+    return null;
+  }
+
+  private static parseOrdinal(word: string): number | null {
+    if (word in ORDINAL_WORDS) {
+      return ORDINAL_WORDS[word];
+    }
+    const match = word.match(/^(\d{1,2})(st|nd|rd|th|\.)?$/);
+    return match && Number(match[1]) > 0 ? Number(match[1]) : null;
+  }
+
+  private static normalizePeriod(intervalUnit: string): 'week' | 'month' | 'year' | null {
+    const unit = intervalUnit?.toLowerCase();
+    if (unit === 'week' || unit === 'weeks') return 'week';
+    if (unit === 'month' || unit === 'months') return 'month';
+    if (unit === 'year' || unit === 'years') return 'year';
+    return null;
+  }
+
+  /**
+   * First day of the period containing a date
+   */
+  static startOfPeriod(date: Date, period: CalendarPeriod): Date {
+    if (period === 'day') {
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+    if (period === 'week') {
+      const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    }
+    if (period === 'month') {
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    }
+    return new Date(date.getFullYear(), 0, 1);
+  }
+
+  /**
+   * Move a period start by a number of whole periods
+   */
+  static addPeriods(start: Date, count: number, period: CalendarPeriod): Date {
+    if (period === 'day') {
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + count);
+    }
+    if (period === 'week') {
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + count * 7);
+    }
+    if (period === 'month') {
+      return new Date(start.getFullYear(), start.getMonth() + count, 1);
+    }
+    return new Date(start.getFullYear() + count, 0, 1);
+  }
+}
@@ -0,0 +1,272 @@
+import { HistoryEvent } from '../types';
+
+export type HistoryAction = 'completed' | 'skipped' | 'snoozed' | 'snooze-cancelled' | 'paused' | 'resumed' | 'other';
+
+export interface HistoryEntry {
+  // Line of the row in the note (0-based), for edits in place
+  line: number;
+  // YYYY-MM-DD
+  date: string;
+  // HH:mm, null when the row has no time
+  time: string | null;
+  // Local YYYY-MM-DDTHH:mm, midnight when the row has no time
+  timestamp: string;
+  daysSinceLast: number | null;
+  daysScheduled: number | null;
+  user: string | null;
+  action: HistoryAction;
+  // The Action cell as written, e.g. "Completed at 1250 km" or "Skipped: on vacation"
+  actionText: string;
+  note: string | null;
+  // Any other column by its header, e.g. the measurements of `record` fields
+  fields: Record<string, string>;
+}
+
+export type HistoryColumn = 'date' | 'time' | 'daysSinceLast' | 'daysScheduled' | 'user' | 'action' | 'note';
+
+// History section headings in every locale, so an existing table is found whatever the current language
+const SECTION_HEADINGS = [
+  '## Completion history',  // English
+  '## Erledigungsverlauf',  // German
+  // Add more locales here as needed
+];
+
+// Column headers in every locale, compared case-insensitively
+const COLUMN_NAMES: Record<HistoryColumn, string[]> = {
+  date: ['date', 'datum'],
+  time: ['time', 'zeit', 'uhrzeit'],
+  daysSinceLast: ['days since last', 'tage seit letztem'],
+  daysScheduled: ['days scheduled', 'tage vorgesehen'],
+  user: ['user', 'benutzer'],
+  action: ['action', 'aktion'],
+  note: ['note', 'notiz']
+};
+
+// Column order the plugin writes, for tables whose headers are in no known locale
+const WRITTEN_COLUMNS: HistoryColumn[] = ['date', 'time', 'daysSinceLast', 'daysScheduled', 'user', 'action'];
+
+// Leading words of the Action cell in every locale
+const ACTION_WORDS: [HistoryAction, string[]][] = [
+  ['completed', ['Completed', 'Erledigt']],
+  ['skipped', ['Skipped', 'Übersprungen']],
+  ['snooze-cancelled', ['Snooze cancelled', 'Zurückstellung aufgehoben']],
+  ['snoozed', ['Snoozed', 'Zurückgestellt']],
+  ['paused', ['Paused', 'Pausiert']],
+  ['resumed', ['Resumed', 'Fortgesetzt']]
+];
+
+// Words between an action and its reading or end date in every locale, as in "Completed at 1250 km"
+const DETAIL_WORDS = ['at', 'bei', 'until', 'bis'];
+
+/**
+ * Reads a note's completion history table back into typed entries
+ *
+ * Columns are found by their header in any locale, so reordered, missing or extra
+ * columns (like `record` measurements) are fine. Hand-edited rows may leave out the
+ * time, use single-digit months or decimal commas; rows without a readable date are
+ * left out. Rows without an Action cell come from versions that only recorded
+ * completions and count as completions.
+ */
+export class CompletionHistoryParser {
+  /**
+   * Section headings in every locale; a named schedule has its own, like "## Completion history: Chain"
+   */
+  static sections(scheduleName?: string): string[] {
+    return scheduleName
+      ? SECTION_HEADINGS.map(section => `${section}: ${scheduleName}`)
+      : SECTION_HEADINGS;
+  }
+
+  /**
+   * Entries of the note's history table, or of a schedule's own table when named, in table order
+   */
+  static parse(content: string, scheduleName?: string): HistoryEntry[] {
+    return this.parseSection(content, this.sections(scheduleName));
+  }
+
+  /**
+   * Entries of the first table below any of the given section headings
+   */
+  static parseSection(content: string, sections: string[]): HistoryEntry[] {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => sections.includes(line.trim()));
+    if (headingIndex === -1) {
+      return [];
+    }
+
+    let header: string[] | null = null;
+    const entries: HistoryEntry[] = [];
+    for (let i = headingIndex + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line.startsWith('|')) {
+        if (header || line.startsWith('#')) break;
+        continue;
+      }
+
+      if (!header) {
+        header = this.cells(line);
+      } else if (!/^\|[\s:|-]*$/.test(line)) {
+        const entry = this.parseRow(i, this.cells(line), header);
+        if (entry) entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  static isCompletion(entry: Pick<HistoryEntry, 'action'>): boolean {
+    return entry.action === 'completed';
+  }
+
+  /**
+   * Kind of action an Action cell records; an empty cell is a completion
+   */
+  static parseAction(text: string | undefined): HistoryAction {
+    return this.matchAction((text || '').trim()).action;
+  }
+
+  /**
+   * An Action cell as the action and its detail (skip reason, meter reading or end date),
+   * in whichever locale it was written
+   */
+  static parseActionText(text: string | undefined): HistoryEvent {
+    const written = (text || '').trim();
+    const { action, rest } = this.matchAction(written);
+    if (action === 'other') {
+      return { action, text: written };
+    }
+
+    const detail = rest.replace(/^:/, '').trim();
+    const words = detail.split(' ');
+    const value = action !== 'skipped' && DETAIL_WORDS.includes(words[0]) ? words.slice(1).join(' ').trim() : detail;
+    if (value && action === 'completed') return { action, reading: value };
+    if (value && action === 'skipped') return { action, reason: value };
+    if (value && (action === 'snoozed' || action === 'paused')) return { action, until: value };
+    return { action };
+  }
+
+  /**
+   * Whether a value is an action as stored in list entries, like "completed" or "snooze-cancelled"
+   */
+  static isAction(value: string): value is HistoryAction {
+    return value === 'other' || ACTION_WORDS.some(([kind]) => kind === value);
+  }
+
+  /**
+   * Whether a header names the note column in any locale
+   */
+  static isNoteColumn(name: string): boolean {
+    return this.columnOf(name) === 'note';
+  }
+
+  /**
+   * Column each header cell holds; headers in no known locale are taken in the order the plugin writes
+   */
+  static columns(header: string[]): (HistoryColumn | null)[] {
+    const known = header.map(name => this.columnOf(name));
+    return known.includes('date') ? known : header.map((_, index) => WRITTEN_COLUMNS[index] ?? null);
+  }
+
+  /**
+   * Cells of a Markdown table row; escaped pipes (as in skip reasons) stay inside their cell,
+   * and the outer pipes may be left off
+   */
+  static cells(line: string): string[] {
+    // Scanned by hand: a lookbehind regex does not load on older iOS WebKit
+    const cells: string[] = [];
+    let cell = '';
+    const text = line.trim();
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\\' && text[i + 1] === '|') {
+        cell += '\\|';
+        i++;
+      } else if (text[i] === '|') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += text[i];
+      }
+    }
+    cells.push(cell);
+    if (cells.length > 1 && !cells[0].trim()) cells.shift();
+    if (cells.length > 1 && !cells[cells.length - 1].trim()) cells.pop();
+    return cells.map(value => value.trim());
+  }
+
+  private static parseRow(line: number, cells: string[], header: string[]): HistoryEntry | null {
+    const columns = this.columns(header);
+    const values: Partial<Record<HistoryColumn, string>> = {};
+    const fields: Record<string, string> = {};
+    header.forEach((name, index) => {
+      const column = columns[index];
+      const value = cells[index] ?? '';
+      if (column) {
+        values[column] = value;
+      } else if (value) {
+        fields[name] = value;
+      }
+    });
+
+    // Hand-written rows may put the time into the date cell
+    const dateMatch = (values.date || '').match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ]+(\d{1,2}):(\d{2}))?/);
+    if (!dateMatch) {
+      return null;
+    }
+
+    const [, year, month, day, dateHours, dateMinutes] = dateMatch;
+    const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    if (isNaN(new Date(`${date}T00:00`).getTime())) {
+      return null;
+    }
+
+    const timeMatch = (values.time || '').match(/^(\d{1,2}):(\d{2})/);
+    const [hours, minutes] = timeMatch ? [timeMatch[1], timeMatch[2]] : [dateHours, dateMinutes];
+    const time = hours !== undefined ? `${hours.padStart(2, '0')}:${minutes}` : null;
+
+    const actionText = values.action ?? '';
+    return {
+      line,
+      date,
+      time,
+      timestamp: `${date}T${time ?? '00:00'}`,
+      daysSinceLast: this.parseNumber(values.daysSinceLast),
+      daysScheduled: this.parseNumber(values.daysScheduled),
+      user: values.user && values.user !== '-' ? values.user : null,
+      action: this.parseAction(actionText),
+      actionText,
+      note: values.note ? values.note : null,
+      fields
+    };
+  }
+
+  /**
+   * Kind of action an Action cell starts with, and the text after that word
+   */
+  private static matchAction(text: string): { action: HistoryAction; rest: string } {
+    if (!text) {
+      return { action: 'completed', rest: '' };
+    }
+
+    for (const [kind, words] of ACTION_WORDS) {
+      const word = words.find(word => text === word || text.startsWith(`${word} `) || text.startsWith(`${word}:`));
+      if (word) {
+        return { action: kind, rest: text.slice(word.length) };
+      }
+    }
+    return { action: 'other', rest: text };
+  }
+
+  private static columnOf(name: string): HistoryColumn | null {
+    const normalized = name.trim().toLowerCase();
+    const match = (Object.keys(COLUMN_NAMES) as HistoryColumn[]).find(column => COLUMN_NAMES[column].includes(normalized));
+    return match ?? null;
+  }
+
+  /**
+   * Numbers as written by the plugin or by hand ("2.5", "2,5"); "-" and blanks are null
+   */
+  private static parseNumber(value: string | undefined): number | null {
+    const number = parseFloat((value || '').replace(',', '.'));
+    return isNaN(number) ? null : number;
+  }
+}
@@ -0,0 +1,135 @@
+import { TFile } from 'obsidian';
+import { UpkeepTask, TaskSource } from '../types';
+import { TaskSchema } from './TaskSchema';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+// Type definitions for Dataview page data
+// Dataview provides file-like objects with similar properties to TFile but they're not actual TFile instances
+interface DataviewEnhancedFile {
+  name: string;
+  path: string;
+  basename?: string;
+  extension?: string;
+  tags?: unknown;
+  stat?: {
+    ctime: number;
+    mtime: number;
+    size: number;
+  };
+}
+
+// Frontmatter fields are exposed as page properties; their names depend on the task schema
+interface DataviewPage {
+  file: DataviewEnhancedFile;
+  [field: string]: unknown;
+}
+
+// Type definitions for Dataview API
+export interface DataviewAPI {
+  page(path: string): DataviewPage | undefined;
+  pages(): {
+    where(predicate: (p: DataviewPage) => boolean): {
+      values: DataviewPage[];
+    };
+  };
+}
+
+/**
+ * Optional task source backed by the Dataview plugin's index
+ * Used when Dataview is installed; the metadata cache source is the fallback
+ */
+export class DataviewTaskSource implements TaskSource {
+  private api: DataviewAPI;
+
+  constructor(api: DataviewAPI) {
+    this.api = api;
+  }
+
+  getUpkeepTasks(): UpkeepTask[] {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Fetching upkeep tasks from Dataview...');
+    }
+
+    const pages = this.api.pages().where((p: DataviewPage) => DataviewTaskSource.isRecurringPage(p));
+
+    const tasks: UpkeepTask[] = [];
+
+    for (const page of pages.values) {
+      tasks.push(...this.pageToTasks(page));
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Tasks fetched from Dataview', {
+        totalTasksFound: tasks.length
+      });
+    }
+
+    return tasks;
+  }
+
+  getTasksForFile(file: TFile): UpkeepTask[] {
+    const page = this.api.page(file.path);
+    if (!page || !DataviewTaskSource.isRecurringPage(page)) {
+      return [];
+    }
+
+    return this.pageToTasks(page);
+  }
+
+  private pageToTasks(page: DataviewPage): UpkeepTask[] {
+    // Check if it's a valid file-like object with required properties
+    if (!page.file || !page.file.name || !page.file.path) {
+      return [];
+    }
+
+    // Dataview wraps lists in a DataArray; the raw list is in its `values`
+    const schedules = DataviewTaskSource.unwrapList(page.schedules);
+    const record = schedules ? { ...page, schedules } : page;
+    const tasks = TaskSchema.toTasks(page.file, record, DataviewTaskSource.tagsOf(page));
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      for (const task of tasks) {
+        console.debug('[Recurring Upkeep] Found valid upkeep task', {
+          fileName: task.file.name,
+          schedule: task.schedule_name,
+          interval: task.interval,
+          intervalUnit: task.interval_unit,
+          lastDone: task.last_done
+        });
+      }
+    }
+
+    return tasks;
+  }
+
+  private static isRecurringPage(p: DataviewPage): boolean {
+    // Check if it's a valid file-like object with required properties
+    if (!p.file || !p.file.name || !p.file.path) {
+      return false;
+    }
+
+    // Check for the configured recurring task markers
+    return TaskSchema.isRecurringTask(DataviewTaskSource.tagsOf(p), p.type);
+  }
+
+  /**
+   * The page's tags; Dataview hands them out as a DataArray
+   */
+  private static tagsOf(page: DataviewPage): string[] {
+    return (this.unwrapList(page.file.tags) || []).filter((tag): tag is string => typeof tag === 'string');
+  }
+
+  /**
+   * The raw list of a Dataview DataArray (or a plain list), else null
+   */
+  private static unwrapList(value: unknown): unknown[] | null {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (value && typeof value === 'object' && 'values' in value) {
+      const values = (value as { values: unknown }).values;
+      return Array.isArray(values) ? values : null;
+    }
+    return null;
+  }
+}
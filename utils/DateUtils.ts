@@ -1,4 +1,6 @@
 import { DateFormatOptions } from '../types';
+import { WorkCalendar } from './WorkCalendar';
+import { SettingsUtils } from './SettingsUtils';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 
 // Type definitions for date inputs
@@ -7,7 +9,104 @@ type DateInput = string | Date | null | undefined | {
   toFormat?(format: string): string;
 };
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Dates are local "wall-clock" dates: YYYY-MM-DD strings and YYYY-MM-DDTHH:mm timestamps
+ * without a zone, held in Date objects whose local fields carry the value. The current
+ * date and time come from the vault time zone setting (the device's zone when empty),
+ * and day counts compare calendar fields, so DST changes never add or drop a day.
+ */
 export class DateUtils {
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * The wall-clock time an instant shows in a time zone, as a Date whose local fields hold it
+   * An empty or unknown zone uses the device's time zone
+   */
+  static inTimeZone(instant: Date, timeZone: string = SettingsUtils.settings.timeZone): Date {
+    const formatter = timeZone ? this.getFormatter(timeZone) : null;
+    if (!formatter) {
+      if (timeZone && RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.warn('[Recurring Upkeep] Unknown time zone, using the device time zone', { timeZone });
+      }
+      return new Date(instant);
+    }
+
+    const parts: Record<string, number> = {};
+    for (const part of formatter.formatToParts(instant)) {
+      parts[part.type] = Number(part.value);
+    }
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  }
+
+  /**
+   * Current wall-clock time in the vault time zone
+   */
+  static currentTime(): Date {
+    return this.inTimeZone(new Date());
+  }
+
+  /**
+   * Today's date (YYYY-MM-DD) in the vault time zone
+   */
+  static today(): string {
+    return this.toDateString(this.currentTime());
+  }
+
+  /**
+   * Current time (YYYY-MM-DDTHH:mm) in the vault time zone
+   */
+  static currentTimestamp(): string {
+    return this.toDateTimeString(this.currentTime());
+  }
+
+  /**
+   * Whether a name is an IANA time zone this runtime knows, e.g. "Europe/Berlin"
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    return !!timeZone && this.getFormatter(timeZone) !== null;
+  }
+
+  /**
+   * Whole calendar days from one date to another, ignoring the time of day and DST changes
+   */
+  static daysBetween(from: Date, to: Date): number {
+    const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((end - start) / MS_PER_DAY);
+  }
+
+  /**
+   * Wall-clock difference between two timestamps in milliseconds; an hour skipped or
+   * repeated by a DST change on the device does not count
+   */
+  static wallClockDiff(from: Date, to: Date): number {
+    const wallTime = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+    return wallTime(to) - wallTime(from);
+  }
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+    if (!this.formatters.has(timeZone)) {
+      try {
+        this.formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric'
+        }));
+      } catch (e) {
+        return null;
+      }
+    }
+    return this.formatters.get(timeZone)!;
+  }
+
   static parseLocalDate(dateInput: DateInput): Date {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Parsing local date', {
@@ -28,7 +127,7 @@ export class DateUtils {
         if ('toFormat' in dateInput && typeof dateInput.toFormat === 'function') {
           dateInput = dateInput.toFormat('yyyy-MM-dd');
         } else if (dateInput instanceof Date) {
-          dateInput = dateInput.toISOString().split('T')[0];
+          dateInput = this.toDateString(dateInput);
         } else {
           dateInput = dateInput.toString();
         }
@@ -46,7 +145,7 @@ export class DateUtils {
     }
 
     if (dateInput instanceof Date) {
-      dateInput = dateInput.toISOString().split('T')[0];
+      dateInput = this.toDateString(dateInput);
     }
 
     const dateString = String(dateInput);
@@ -87,7 +186,7 @@ export class DateUtils {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Successfully parsed local date', {
         input: dateInput,
-        result: result.toISOString().split('T')[0],
+        result: this.toDateString(result),
         components: { year, month: month + 1, day }
       });
     }
@@ -102,7 +201,7 @@ export class DateUtils {
       console.debug('[Recurring Upkeep] Formatting date', { dateString });
     }
 
-    const date = new Date(dateString);
+    const date = this.parseLocalDateTime(dateString);
     const options: DateFormatOptions = {
       weekday: 'short',
       year: 'numeric',
@@ -178,7 +277,7 @@ export class DateUtils {
     }
 
     const date = this.parseLocalDate(dateString);
-    const todayStr = now || new Date().toISOString().split('T')[0];
+    const todayStr = now || this.today();
     const today = this.parseLocalDate(todayStr);
 
     if (isNaN(date.getTime()) || isNaN(today.getTime())) {
@@ -192,12 +291,10 @@ export class DateUtils {
       return "never";
     }
 
-    const diffTime = date.getTime() - today.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = this.daysBetween(today, date);
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Calculated date difference', {
-        diffTime,
         diffDays
       });
     }
@@ -228,16 +325,14 @@ export class DateUtils {
     if (!dateString) return false;
 
     const date = this.parseLocalDate(dateString);
-    const todayStr = now || new Date().toISOString().split('T')[0];
+    const todayStr = now || this.today();
     const today = this.parseLocalDate(todayStr);
 
     if (isNaN(date.getTime()) || isNaN(today.getTime())) {
       return false;
     }
 
-    const result = date.getDate() === today.getDate() &&
-                  date.getMonth() === today.getMonth() &&
-                  date.getFullYear() === today.getFullYear();
+    const result = this.daysBetween(today, date) === 0;
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Checked if date is today', {
@@ -250,7 +345,11 @@ export class DateUtils {
     return result;
   }
 
-  static calculateDaysRemaining(dueDate: string, now: string | null = null): number {
+  /**
+   * Days from today to a due date (negative once it has passed)
+   * With `workingDays` only working days count, see WorkCalendar
+   */
+  static calculateDaysRemaining(dueDate: string, now: string | null = null, workingDays = false): number {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Calculating days remaining', {
         dueDate,
@@ -265,7 +364,7 @@ export class DateUtils {
       return -9999;
     }
 
-    const todayStr = now || new Date().toISOString().split('T')[0];
+    const todayStr = now || this.today();
     const today = this.parseLocalDate(todayStr);
     const due = this.parseLocalDate(dueDate);
 
@@ -280,14 +379,14 @@ export class DateUtils {
       return -9999;
     }
 
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = workingDays
+      ? WorkCalendar.countWorkingDays(today, due)
+      : this.daysBetween(today, due);
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Days remaining calculated', {
         dueDate,
         todayStr,
-        diffTime,
         diffDays
       });
     }
@@ -295,7 +394,12 @@ export class DateUtils {
     return diffDays;
   }
 
-  static calculateNextDueDate(lastDoneDate: string, interval: number, intervalUnit: string): string | null {
+  /**
+   * Due date one interval after the last completion
+   * With `workingDays`, day intervals count working days only and the due date
+   * moves off weekends and holidays (see WorkCalendar)
+   */
+  static calculateNextDueDate(lastDoneDate: string, interval: number, intervalUnit: string, workingDays = false): string | null {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Calculating next due date', {
         lastDoneDate,
@@ -313,7 +417,10 @@ export class DateUtils {
 
     let date: Date;
     try {
-      date = new Date(lastDoneDate);
+      // Plain YYYY-MM-DD strings (raw frontmatter) are local dates, not UTC midnight
+      date = /^\d{4}-\d{2}-\d{2}$/.test(String(lastDoneDate))
+        ? this.parseLocalDate(lastDoneDate)
+        : new Date(lastDoneDate);
 
       if (isNaN(date.getTime())) {
         console.error('[Recurring Upkeep] Invalid date provided', { lastDoneDate });
@@ -329,8 +436,6 @@ export class DateUtils {
       return null;
     }
 
-    const nextDue = new Date(date);
-
     const numInterval = Number(interval);
     if (isNaN(numInterval) || numInterval <= 0) {
       console.error('[Recurring Upkeep] Invalid interval', {
@@ -351,27 +456,11 @@ export class DateUtils {
       });
     }
 
-    if (normalizedUnit === "day" || normalizedUnit === "days") {
-      nextDue.setDate(nextDue.getDate() + numInterval);
-    } else if (normalizedUnit === "week" || normalizedUnit === "weeks") {
-      nextDue.setDate(nextDue.getDate() + (numInterval * 7));
-    } else if (normalizedUnit === "month" || normalizedUnit === "months") {
-      const targetDay = nextDue.getDate();
-      nextDue.setMonth(nextDue.getMonth() + numInterval);
-
-      if (nextDue.getDate() !== targetDay) {
-        nextDue.setDate(0);
-      }
-
-      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        console.debug('[Recurring Upkeep] Month calculation handled edge case', {
-          targetDay,
-          finalDay: nextDue.getDate()
-        });
-      }
-    } else if (normalizedUnit === "year" || normalizedUnit === "years") {
-      nextDue.setFullYear(nextDue.getFullYear() + numInterval);
-    } else {
+    const countsWorkingDays = workingDays && (normalizedUnit === "day" || normalizedUnit === "days");
+    const nextDue = countsWorkingDays
+      ? WorkCalendar.addWorkingDays(date, numInterval)
+      : this.addInterval(date, numInterval, normalizedUnit);
+    if (!nextDue) {
       console.error('[Recurring Upkeep] Unknown interval unit', {
         intervalUnit,
         normalizedUnit
@@ -391,23 +480,211 @@ export class DateUtils {
       return null;
     }
 
-    const resultYear = nextDue.getFullYear();
-    const resultMonth = (nextDue.getMonth() + 1).toString().padStart(2, '0');
-    const resultDay = nextDue.getDate().toString().padStart(2, '0');
-
-    const result = `${resultYear}-${resultMonth}-${resultDay}`;
+    const result = this.isSubDayUnit(normalizedUnit)
+      ? this.toDateTimeString(nextDue)
+      : this.toDateString(workingDays ? WorkCalendar.nextWorkingDay(nextDue) : nextDue);
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Next due date calculated successfully', {
         input: { lastDoneDate, interval, intervalUnit },
         result,
-        daysDifference: Math.ceil((nextDue.getTime() - date.getTime()) / (1000 * 60 * 60 * 24))
+        daysDifference: this.daysBetween(date, nextDue)
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Move a date by a number of interval units (negative amounts go back in time)
+   * Month steps clamp to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+   * Returns null for unknown units
+   */
+  static addInterval(date: Date, amount: number, intervalUnit: string): Date | null {
+    const result = new Date(date);
+    const normalizedUnit = intervalUnit?.toLowerCase();
+
+    if (normalizedUnit === "day" || normalizedUnit === "days") {
+      result.setDate(result.getDate() + amount);
+    } else if (normalizedUnit === "week" || normalizedUnit === "weeks") {
+      result.setDate(result.getDate() + (amount * 7));
+    } else if (normalizedUnit === "month" || normalizedUnit === "months") {
+      const targetDay = result.getDate();
+      result.setMonth(result.getMonth() + amount);
+
+      if (result.getDate() !== targetDay) {
+        result.setDate(0);
+      }
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Month calculation handled edge case', {
+          targetDay,
+          finalDay: result.getDate()
+        });
+      }
+    } else if (normalizedUnit === "year" || normalizedUnit === "years") {
+      result.setFullYear(result.getFullYear() + amount);
+    } else if (normalizedUnit === "hour" || normalizedUnit === "hours") {
+      result.setHours(result.getHours() + amount);
+    } else if (normalizedUnit === "minute" || normalizedUnit === "minutes") {
+      result.setMinutes(result.getMinutes() + amount);
+    } else {
+      return null;
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether an interval unit is shorter than a day (hours, minutes)
+   * Such tasks keep a full timestamp in last_done and are scheduled to the minute
+   */
+  static isSubDayUnit(intervalUnit: string | undefined): boolean {
+    const normalizedUnit = intervalUnit?.toLowerCase();
+    return normalizedUnit === "hour" || normalizedUnit === "hours" ||
+      normalizedUnit === "minute" || normalizedUnit === "minutes";
+  }
+
+  /**
+   * Next due date for fixed schedules: the first occurrence of anchor + k × interval
+   * after the last completion. Late or early completions do not shift the schedule.
+   * Occurrences are always counted from the anchor so month-end clamping never drifts.
+   * Without a completion, the anchor itself is the first due date.
+   * With `workingDays`, occurrences on weekends and holidays move to the next working day.
+   */
+  static calculateFixedNextDueDate(anchorDate: string, lastDoneDate: string | undefined, interval: number, intervalUnit: string, workingDays = false): string | null {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Calculating fixed next due date', {
+        anchorDate,
+        lastDoneDate,
+        interval,
+        intervalUnit
       });
     }
 
+    // Hour and minute schedules keep the time of day; everything else works on whole dates
+    const subDay = this.isSubDayUnit(intervalUnit);
+    const parse = (value: string) => subDay ? this.parseLocalDateTime(value) : this.parseLocalDate(value);
+    const format = (date: Date) => subDay ? this.toDateTimeString(date) : this.toDateString(date);
+    const shift = (date: Date) => workingDays && !subDay ? WorkCalendar.nextWorkingDay(date) : date;
+
+    const anchor = parse(anchorDate);
+    const numInterval = Number(interval);
+
+    if (isNaN(anchor.getTime()) || isNaN(numInterval) || numInterval <= 0) {
+      console.error('[Recurring Upkeep] Invalid fixed schedule', { anchorDate, interval });
+      return null;
+    }
+
+    if (!lastDoneDate) {
+      return format(shift(anchor));
+    }
+
+    const lastDone = parse(lastDoneDate);
+    if (isNaN(lastDone.getTime())) {
+      return null;
+    }
+
+    // Hours and minutes have a fixed length, so jump straight to the occurrence before the last completion
+    let first = 0;
+    if (subDay) {
+      const step = this.wallClockDiff(anchor, this.addInterval(anchor, numInterval, intervalUnit)!);
+      first = Math.max(0, Math.floor(this.wallClockDiff(anchor, lastDone) / step) - 1);
+    }
+
+    // Upper bound keeps a broken schedule from looping forever (≈ 27 years of daily tasks)
+    for (let k = first; k < first + 10000; k++) {
+      const occurrence = this.addInterval(anchor, k * numInterval, intervalUnit);
+      if (!occurrence) {
+        console.error('[Recurring Upkeep] Unknown interval unit', { intervalUnit });
+        return null;
+      }
+      if (shift(occurrence).getTime() > lastDone.getTime()) {
+        return format(shift(occurrence));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Format a date as a local YYYY-MM-DD string
+   */
+  static toDateString(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * Format a date as a local YYYY-MM-DDTHH:mm timestamp
+   */
+  static toDateTimeString(date: Date): string {
+    const hours = date.getHours().toString().padStart(2, '0');
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    return `${this.toDateString(date)}T${hours}:${minutes}`;
+  }
+
+  /**
+   * Whether a date value carries a time of day (YYYY-MM-DDTHH:mm…)
+   */
+  static hasTime(dateInput: DateInput): boolean {
+    return /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(String(dateInput ?? ''));
+  }
+
+  /**
+   * Parse a date with its time of day; plain YYYY-MM-DD dates mean local midnight
+   * Timestamps without a zone are local time, like the ones markTaskComplete writes
+   */
+  static parseLocalDateTime(dateInput: DateInput): Date {
+    if (dateInput && typeof dateInput === 'object' && 'toFormat' in dateInput && typeof dateInput.toFormat === 'function') {
+      dateInput = dateInput.toFormat("yyyy-MM-dd'T'HH:mm:ss");
+    }
+    if (dateInput instanceof Date) {
+      return new Date(dateInput);
+    }
+    if (!this.hasTime(dateInput)) {
+      return this.parseLocalDate(dateInput);
+    }
+
+    const result = new Date(String(dateInput).trim().replace(' ', 'T'));
+    if (isNaN(result.getTime())) {
+      console.error('[Recurring Upkeep] Invalid timestamp', { received: dateInput });
+    }
     return result;
   }
 
+  /**
+   * The moment a `now` value stands for: a timestamp as given, the current time when it is
+   * today's date (views pass the date only), or else the start of that day
+   */
+  static resolveNow(now: string | null = null): Date {
+    if (!now || (!this.hasTime(now) && now === this.today())) {
+      return this.currentTime();
+    }
+    return this.parseLocalDateTime(now);
+  }
+
+  /**
+   * Time until a due timestamp in (fractional) days, to the minute; negative when it has passed
+   */
+  static calculateTimeRemaining(dueDate: string, now: string | null = null): number {
+    if (!dueDate) {
+      return -9999;
+    }
+
+    const due = this.parseLocalDateTime(dueDate);
+    const current = this.resolveNow(now);
+    if (isNaN(due.getTime()) || isNaN(current.getTime())) {
+      console.error('[Recurring Upkeep] Invalid dates in calculateTimeRemaining', { dueDate, now });
+      return -9999;
+    }
+
+    const minutes = Math.round(this.wallClockDiff(current, due) / (1000 * 60));
+    return minutes / (60 * 24);
+  }
+
   static addDateTooltip(element: HTMLElement, dateString: string, prefix = "Date", now: string | null = null): void {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Adding date tooltip', {
@@ -421,13 +698,12 @@ export class DateUtils {
     if (dateString && element) {
       const formattedDate = this.formatDate(dateString);
 
-      const todayStr = now || new Date().toISOString().split('T')[0];
+      const todayStr = now || this.today();
       const today = this.parseLocalDate(todayStr);
       const targetDate = this.parseLocalDate(dateString);
 
       if (!isNaN(today.getTime()) && !isNaN(targetDate.getTime())) {
-        const diffTime = targetDate.getTime() - today.getTime();
-        const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
+        const diffDays = this.daysBetween(today, targetDate);
 
         let dayInfo = "";
         if (diffDays === 0) {
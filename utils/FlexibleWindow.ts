@@ -0,0 +1,60 @@
+import { UpkeepTask } from '../types';
+import { DateUtils } from './DateUtils';
+import { WorkCalendar } from './WorkCalendar';
+
+export interface IntervalWindow {
+  min: number;
+  max: number;
+}
+
+type WindowFields = Pick<UpkeepTask, 'interval_min' | 'interval_max' | 'interval_unit'>;
+
+/**
+ * Flexible windows: tasks done every `interval_min` to `interval_max` units, e.g.
+ * "repot every 12–18 months"
+ *
+ * The task is due by the end of the window (the upper bound, which TaskSchema uses as
+ * the interval when none is given). Before the window opens it is not yet due, inside
+ * the window it is `in-window`, and after the upper bound it is overdue.
+ */
+export class FlexibleWindow {
+  /**
+   * The task's window, or null when it has no valid `interval_min`/`interval_max` pair
+   */
+  static parse(task: WindowFields): IntervalWindow | null {
+    if (task.interval_min === undefined || task.interval_max === undefined || !task.interval_unit) {
+      return null;
+    }
+
+    const min = Number(task.interval_min);
+    const max = Number(task.interval_max);
+    if (isNaN(min) || isNaN(max) || min <= 0 || max < min) {
+      return null;
+    }
+
+    return { min, max };
+  }
+
+  /**
+   * Date the window opens for a given due date: the due date moved back by the window's width
+   * With `workingDays`, day windows count working days
+   */
+  static opens(window: IntervalWindow, dueDate: string, intervalUnit: string, workingDays = false): string | null {
+    const subDay = DateUtils.isSubDayUnit(intervalUnit);
+    const due = subDay ? DateUtils.parseLocalDateTime(dueDate) : DateUtils.parseLocalDate(dueDate);
+    if (isNaN(due.getTime())) {
+      return null;
+    }
+
+    const width = window.max - window.min;
+    const normalizedUnit = intervalUnit.toLowerCase();
+    const opens = workingDays && (normalizedUnit === 'day' || normalizedUnit === 'days')
+      ? WorkCalendar.addWorkingDays(due, -width)
+      : DateUtils.addInterval(due, -width, normalizedUnit);
+    if (!opens) {
+      return null;
+    }
+
+    return subDay ? DateUtils.toDateTimeString(opens) : DateUtils.toDateString(opens);
+  }
+}
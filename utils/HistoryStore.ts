@@ -0,0 +1,518 @@
+import { App, TFile, FrontMatterCache, parseYaml } from 'obsidian';
+import { HistoryItem, HistoryEdit, HistoryEvent } from '../types';
+import { HistoryStorage } from '../settings';
+import { SettingsUtils } from './SettingsUtils';
+import { TaskSchema } from './TaskSchema';
+import { DateUtils } from './DateUtils';
+import { CompletionHistoryParser, HistoryEntry } from './CompletionHistoryParser';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+// A line of the history log: the entry plus the task it belongs to
+interface LogLine extends HistoryItem {
+  task: string;
+  schedule?: string;
+}
+
+const HISTORY_FIELD = 'history';
+
+/**
+ * Where a task's completion history lives, for the storages other than a table in the note
+ *
+ * `sidecar` keeps the same tables as `table`, only in `<note>.history.md` next to the note.
+ * `frontmatter` keeps a `history:` list in the task's frontmatter (or in its `schedules:`
+ * entry), and `log` keeps one JSON line per entry in a vault-wide log file. Entries of
+ * both lists are kept in date order. Renaming a note or one of its schedules takes
+ * its history along.
+ */
+export class HistoryStore {
+  static get storage(): HistoryStorage {
+    return SettingsUtils.settings.historyStorage;
+  }
+
+  /**
+   * Whether the storage keeps Markdown tables, in the note or in its sidecar
+   */
+  static usesTables(storage: HistoryStorage): boolean {
+    return storage === 'table' || storage === 'sidecar';
+  }
+
+  /**
+   * Path of a note's sidecar, e.g. "Chores/Filter.history.md" for "Chores/Filter.md"
+   */
+  static sidecarPath(path: string): string {
+    return `${path.replace(/\.md$/, '')}.history.md`;
+  }
+
+  /**
+   * File holding a task's history tables: the note itself, or its sidecar
+   * With `create`, a missing sidecar is created empty
+   */
+  static async getTableFile(app: App, file: TFile, storage: HistoryStorage, create = false): Promise<TFile | null> {
+    if (storage !== 'sidecar') {
+      return file;
+    }
+
+    const sidecar = app.vault.getAbstractFileByPath(this.sidecarPath(file.path));
+    if (sidecar instanceof TFile) {
+      return sidecar;
+    }
+    return create ? app.vault.create(this.sidecarPath(file.path), `# ${file.basename}\n`) : null;
+  }
+
+  /**
+   * Every entry of a task's history in the given storage
+   */
+  static async read(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    scheduleName: string | undefined,
+    storage: HistoryStorage = this.storage
+  ): Promise<HistoryItem[]> {
+    if (this.usesTables(storage)) {
+      const tableFile = await this.getTableFile(app, file, storage);
+      return tableFile
+        ? CompletionHistoryParser.parse(await app.vault.read(tableFile), scheduleName).map(entry => this.fromEntry(entry))
+        : [];
+    }
+
+    if (storage === 'frontmatter') {
+      const frontmatter = await this.readFrontmatter(app, file);
+      const record = frontmatter ? TaskSchema.getScheduleRecord(frontmatter, scheduleIndex) : null;
+      return this.toItems(record?.[HISTORY_FIELD]);
+    }
+
+    return (await this.readLog(app))
+      .filter(line => this.belongsTo(line, file.path, scheduleName))
+      .map(line => this.fromLogLine(line));
+  }
+
+  /**
+   * Add an entry to the `history:` list or the log; backdated entries go in date order
+   * Returns the entry's JSON as stored, and that of the completion a backdated entry
+   * recounted, for taking both back with `remove`
+   */
+  static async add(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    scheduleName: string | undefined,
+    item: HistoryItem,
+    backdated = false,
+    storage: HistoryStorage = this.storage
+  ): Promise<{ text: string; recounted?: HistoryEdit }> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Adding history entry', { fileName: file.name, storage, item, backdated });
+    }
+
+    if (storage === 'frontmatter') {
+      let added: { text: string; recounted?: HistoryEdit } = { text: '' };
+      await this.processHistory(app, file, scheduleIndex, items => {
+        const updated = backdated ? this.insertInOrder(items, item) : [...items, item];
+        const index = backdated ? this.insertionIndex(items, item) : items.length;
+        added = {
+          text: JSON.stringify(this.toItems([updated[index]])[0]),
+          recounted: this.recounted(items, updated, index, other => JSON.stringify(other))
+        };
+        return updated;
+      });
+      return added;
+    }
+
+    if (storage !== 'log') {
+      throw new Error(`History storage "${storage}" keeps tables`);
+    }
+
+    if (backdated) {
+      const items = await this.read(app, file, scheduleIndex, scheduleName, 'log');
+      const updated = this.insertInOrder(items, item);
+      await this.replace(app, file, scheduleIndex, scheduleName, updated, 'log');
+      const toText = (other: HistoryItem) => JSON.stringify(this.toLogLine(other, file.path, scheduleName));
+      const index = this.insertionIndex(items, item);
+      return { text: toText(updated[index]), recounted: this.recounted(items, updated, index, toText) };
+    }
+
+    const line = JSON.stringify(this.toLogLine(item, file.path, scheduleName));
+    const logFile = app.vault.getAbstractFileByPath(this.logPath);
+    if (logFile instanceof TFile) {
+      const content = await app.vault.read(logFile);
+      await app.vault.append(logFile, content === '' || content.endsWith('\n') ? `${line}\n` : `\n${line}\n`);
+    } else {
+      await app.vault.create(this.logPath, `${line}\n`);
+    }
+    return { text: line };
+  }
+
+  /**
+   * Take back an entry added with `add`, given the JSON it returned; a recounted
+   * completion gets its original entry back
+   */
+  static async remove(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    text: string,
+    storage: HistoryStorage = this.storage,
+    recounted?: HistoryEdit
+  ): Promise<void> {
+    if (storage === 'frontmatter') {
+      await this.processHistory(app, file, scheduleIndex, items => {
+        const texts = items.map(item => JSON.stringify(item));
+        const index = texts.lastIndexOf(text);
+        if (index === -1) {
+          return items;
+        }
+
+        const recountedIndex = recounted ? texts.lastIndexOf(recounted.updated) : -1;
+        if (recounted && recountedIndex !== -1) {
+          items[recountedIndex] = this.toItems([JSON.parse(recounted.original)])[0];
+        }
+        return items.filter((_, i) => i !== index);
+      });
+      return;
+    }
+
+    const logFile = app.vault.getAbstractFileByPath(this.logPath);
+    if (storage !== 'log' || !(logFile instanceof TFile)) {
+      return;
+    }
+
+    const lines = (await app.vault.read(logFile)).split('\n');
+    const trimmed = lines.map(line => line.trim());
+    const index = trimmed.lastIndexOf(text);
+    if (index === -1) {
+      return;
+    }
+
+    const recountedIndex = recounted ? trimmed.lastIndexOf(recounted.updated) : -1;
+    if (recounted && recountedIndex !== -1) {
+      lines[recountedIndex] = recounted.original;
+    }
+    lines.splice(index, 1);
+    await app.vault.modify(logFile, lines.join('\n'));
+  }
+
+  /**
+   * Replace a task's whole history in the `history:` list or the log; an empty list removes it
+   */
+  static async replace(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    scheduleName: string | undefined,
+    items: HistoryItem[],
+    storage: HistoryStorage
+  ): Promise<void> {
+    if (storage === 'frontmatter') {
+      await this.processHistory(app, file, scheduleIndex, () => items);
+      return;
+    }
+
+    if (storage !== 'log') {
+      throw new Error(`History storage "${storage}" keeps tables`);
+    }
+
+    const logFile = app.vault.getAbstractFileByPath(this.logPath);
+    const kept = logFile instanceof TFile
+      ? (await app.vault.read(logFile)).split('\n').filter(line => {
+        const parsed = this.parseLogLine(line);
+        return line.trim() !== '' && !(parsed && this.belongsTo(parsed, file.path, scheduleName));
+      })
+      : [];
+    const lines = [...kept, ...items.map(item => JSON.stringify(this.toLogLine(item, file.path, scheduleName)))];
+    const content = lines.length > 0 ? `${lines.join('\n')}\n` : '';
+
+    if (logFile instanceof TFile) {
+      await app.vault.modify(logFile, content);
+    } else if (items.length > 0) {
+      await app.vault.create(this.logPath, content);
+    }
+  }
+
+  /**
+   * Keep a renamed or moved note's history with it: its sidecar moves along and its
+   * lines in the log get the new path, whatever the storage is set to now
+   */
+  static async renameNote(app: App, file: TFile, oldPath: string): Promise<void> {
+    const sidecar = app.vault.getAbstractFileByPath(this.sidecarPath(oldPath));
+    if (sidecar instanceof TFile && !app.vault.getAbstractFileByPath(this.sidecarPath(file.path))) {
+      await app.fileManager.renameFile(sidecar, this.sidecarPath(file.path));
+    }
+
+    await this.rewriteLog(app, line => line.task === oldPath ? { ...line, task: file.path } : null);
+  }
+
+  /**
+   * Keep a renamed schedule's history: its table sections in the note and the sidecar get
+   * the new name, and so do its lines in the log. A name that already has a section keeps it.
+   */
+  static async renameSchedule(app: App, file: TFile, oldName: string, newName: string): Promise<void> {
+    const oldSections = CompletionHistoryParser.sections(oldName);
+    const newSections = CompletionHistoryParser.sections(newName);
+    for (const tableFile of [file, app.vault.getAbstractFileByPath(this.sidecarPath(file.path))]) {
+      if (!(tableFile instanceof TFile)) continue;
+
+      const lines = (await app.vault.read(tableFile)).split('\n');
+      if (lines.some(line => newSections.includes(line.trim()))) continue;
+
+      let renamed = false;
+      const updated = lines.map(line => {
+        const index = oldSections.indexOf(line.trim());
+        if (index === -1) return line;
+        renamed = true;
+        return newSections[index];
+      });
+      if (renamed) {
+        await app.vault.modify(tableFile, updated.join('\n'));
+      }
+    }
+
+    await this.rewriteLog(app, line => line.task === file.path && line.schedule === oldName ? { ...line, schedule: newName } : null);
+  }
+
+  /**
+   * A task's entries with one more, placed in date order
+   * Days since last of the new entry and of the completion after it are counted from their
+   * neighbouring completions
+   */
+  static insertInOrder(items: HistoryItem[], item: HistoryItem): HistoryItem[] {
+    const insertAt = this.insertionIndex(items, item);
+    const before = items.slice(0, insertAt);
+    const after = items.slice(insertAt);
+
+    const inserted = { ...item };
+    const previous = before.filter(other => this.isCompletion(other)).pop();
+    if (previous) {
+      inserted.days_since_last = this.daysBetween(previous, inserted);
+    }
+
+    const nextIndex = after.findIndex(other => this.isCompletion(other));
+    const updatedAfter = after.map((other, index) => index === nextIndex
+      ? { ...other, days_since_last: this.daysBetween(inserted, other) }
+      : other);
+
+    return [...before, inserted, ...updatedAfter];
+  }
+
+  static isCompletion(item: HistoryItem): boolean {
+    return item.action === 'completed';
+  }
+
+  /**
+   * A parsed table row as a list entry; the Action cell becomes the action and its detail,
+   * extra columns become measurements
+   */
+  static fromEntry(entry: HistoryEntry): HistoryItem {
+    const item: HistoryItem = {
+      date: entry.time ? entry.timestamp : entry.date,
+      days_since_last: entry.daysSinceLast,
+      days_scheduled: entry.daysScheduled,
+      user: entry.user,
+      ...CompletionHistoryParser.parseActionText(this.unescapeCell(entry.actionText))
+    };
+    if (entry.note) {
+      item.note = this.unescapeCell(entry.note);
+    }
+    return { ...entry.fields, ...item };
+  }
+
+  /**
+   * Measurements of an entry: every field besides the standard ones, by name
+   */
+  static measurements(item: HistoryItem): Record<string, string> {
+    const standard = ['date', 'days_since_last', 'days_scheduled', 'user', 'action', 'reason', 'reading', 'until', 'text', 'note'];
+    const fields: Record<string, string> = {};
+    for (const [field, value] of Object.entries(item)) {
+      if (!standard.includes(field) && value !== null && value !== undefined && value !== '') {
+        fields[field] = String(value);
+      }
+    }
+    return fields;
+  }
+
+  private static unescapeCell(text: string): string {
+    return text.replace(/\\\|/g, '|');
+  }
+
+  /**
+   * The completion after a new entry at `index` whose days since last `insertInOrder`
+   * recounted, as text before and after
+   */
+  private static recounted(
+    items: HistoryItem[],
+    updated: HistoryItem[],
+    index: number,
+    toText: (item: HistoryItem) => string
+  ): HistoryEdit | undefined {
+    for (let i = index + 1; i < updated.length; i++) {
+      const original = toText(items[i - 1]);
+      if (toText(updated[i]) !== original) {
+        return { original, updated: toText(updated[i]) };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Position of a new entry: before the first entry dated after it
+   */
+  private static insertionIndex(items: HistoryItem[], item: HistoryItem): number {
+    const index = items.findIndex(other => this.timestamp(other) > this.timestamp(item));
+    return index === -1 ? items.length : index;
+  }
+
+  private static get logPath(): string {
+    return SettingsUtils.settings.historyLogFile.trim() || 'Upkeep history.jsonl';
+  }
+
+  /**
+   * Update the `history:` list of the task's frontmatter record; an empty list is removed
+   */
+  private static async processHistory(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    update: (items: HistoryItem[]) => HistoryItem[]
+  ): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (frontmatter: FrontMatterCache) => {
+      const record = TaskSchema.getScheduleRecord(frontmatter, scheduleIndex);
+      if (!record) throw new Error("Schedule not found");
+
+      const items = update(this.toItems(record[HISTORY_FIELD]));
+      if (items.length > 0) {
+        record[HISTORY_FIELD] = items;
+      } else {
+        delete record[HISTORY_FIELD];
+      }
+    });
+  }
+
+  /**
+   * The note's frontmatter as the file has it now; the metadata cache may not have
+   * caught up with a write made just before
+   */
+  private static async readFrontmatter(app: App, file: TFile): Promise<Record<string, unknown> | null> {
+    const match = (await app.vault.read(file)).match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const frontmatter: unknown = parseYaml(match[1]);
+      return frontmatter && typeof frontmatter === 'object' ? frontmatter as Record<string, unknown> : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Entries of a `history:` list; entries without a date are left out
+   */
+  private static toItems(value: unknown): HistoryItem[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !!item.date)
+      .map(item => ({
+        ...item,
+        date: String(item.date),
+        days_since_last: this.toNumber(item.days_since_last),
+        days_scheduled: this.toNumber(item.days_scheduled),
+        user: item.user ? String(item.user) : null,
+        ...this.toEvent(item)
+      } as HistoryItem));
+  }
+
+  /**
+   * The action of a list entry; entries written before actions were stored as keys
+   * hold the Action text instead, which is read like a table cell
+   */
+  private static toEvent(item: Record<string, unknown>): HistoryEvent {
+    const action = item.action ? String(item.action) : '';
+    return CompletionHistoryParser.isAction(action) ? { action } : CompletionHistoryParser.parseActionText(action);
+  }
+
+  /**
+   * Rewrite lines of the log; lines `rewrite` returns null for are kept as written
+   */
+  private static async rewriteLog(app: App, rewrite: (line: LogLine) => LogLine | null): Promise<void> {
+    const logFile = app.vault.getAbstractFileByPath(this.logPath);
+    if (!(logFile instanceof TFile)) {
+      return;
+    }
+
+    let changed = false;
+    const lines = (await app.vault.read(logFile)).split('\n').map(line => {
+      const parsed = this.parseLogLine(line);
+      const rewritten = parsed ? rewrite(parsed) : null;
+      if (!rewritten) return line;
+      changed = true;
+      return JSON.stringify(rewritten);
+    });
+    if (changed) {
+      await app.vault.modify(logFile, lines.join('\n'));
+    }
+  }
+
+  private static async readLog(app: App): Promise<LogLine[]> {
+    const logFile = app.vault.getAbstractFileByPath(this.logPath);
+    if (!(logFile instanceof TFile)) {
+      return [];
+    }
+
+    const lines = (await app.vault.read(logFile)).split('\n');
+    return lines
+      .map(line => this.parseLogLine(line))
+      .filter((line): line is LogLine => line !== null);
+  }
+
+  /**
+   * A line of the log, or null for blank and broken lines
+   */
+  private static parseLogLine(line: string): LogLine | null {
+    if (!line.trim()) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(line);
+      return parsed && typeof parsed.task === 'string' && parsed.date ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static belongsTo(line: LogLine, path: string, scheduleName: string | undefined): boolean {
+    return line.task === path && (line.schedule ?? undefined) === scheduleName;
+  }
+
+  private static toLogLine(item: HistoryItem, path: string, scheduleName: string | undefined): LogLine {
+    return scheduleName ? { task: path, schedule: scheduleName, ...item } : { task: path, ...item };
+  }
+
+  private static fromLogLine(line: LogLine): HistoryItem {
+    const item: Record<string, unknown> = { ...line };
+    delete item.task;
+    delete item.schedule;
+    return this.toItems([item])[0];
+  }
+
+  private static timestamp(item: HistoryItem): string {
+    return item.date.includes('T') ? item.date : `${item.date}T00:00`;
+  }
+
+  private static daysBetween(from: HistoryItem, to: HistoryItem): number {
+    const days = DateUtils.wallClockDiff(
+      DateUtils.parseLocalDateTime(this.timestamp(from)),
+      DateUtils.parseLocalDateTime(this.timestamp(to))
+    ) / (1000 * 60 * 60 * 24);
+    return parseFloat(days.toFixed(2));
+  }
+
+  private static toNumber(value: unknown): number | null {
+    const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(',', '.'));
+    return isNaN(number) ? null : number;
+  }
+}
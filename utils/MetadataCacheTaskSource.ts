@@ -0,0 +1,68 @@
+import { App, TFile, CachedMetadata, getAllTags } from 'obsidian';
+import { UpkeepTask, TaskSource } from '../types';
+import { TaskSchema } from './TaskSchema';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+/**
+ * Task source built on Obsidian's own metadata cache
+ * Works without any third-party plugin, including on mobile
+ */
+export class MetadataCacheTaskSource implements TaskSource {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  getUpkeepTasks(): UpkeepTask[] {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Fetching upkeep tasks from metadata cache...');
+    }
+
+    const tasks: UpkeepTask[] = [];
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      tasks.push(...this.getTasksForFile(file));
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Tasks fetched from metadata cache', {
+        totalTasksFound: tasks.length
+      });
+    }
+
+    return tasks;
+  }
+
+  getTasksForFile(file: TFile): UpkeepTask[] {
+    if (file.extension !== 'md') return [];
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache || !MetadataCacheTaskSource.isRecurringTask(cache)) {
+      return [];
+    }
+
+    const tasks = TaskSchema.toTasks(file, cache.frontmatter || {}, getAllTags(cache) || []);
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      for (const task of tasks) {
+        console.debug('[Recurring Upkeep] Found valid upkeep task', {
+          fileName: task.file.name,
+          schedule: task.schedule_name,
+          interval: task.interval,
+          intervalUnit: task.interval_unit,
+          lastDone: task.last_done
+        });
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Check for the configured recurring task markers (in frontmatter or inline tags)
+   */
+  static isRecurringTask(cache: CachedMetadata): boolean {
+    return TaskSchema.isRecurringTask(getAllTags(cache) || [], cache.frontmatter?.type);
+  }
+}
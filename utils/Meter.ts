@@ -0,0 +1,106 @@
+import { App, TFile } from 'obsidian';
+import { UpkeepTask } from '../types';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+// Frontmatter key read from the meter note when the task does not name one
+const DEFAULT_METER_FIELD = 'reading';
+
+// Share of the meter interval left at which a task counts as due soon
+const METER_WARN_SHARE = 0.1;
+
+type MeterFields = Pick<UpkeepTask, 'file' | 'meter' | 'meter_field'>;
+
+/**
+ * Usage-based schedules: the task falls due after an amount of use rather than time
+ *
+ * - `meter: "[[Bike]]"` links the note whose frontmatter holds the current reading
+ * - `meter_field: odometer` names that frontmatter key (default `reading`)
+ * - `meter_interval: 300` is the amount of use between completions, `meter_unit: km` its label
+ * - `last_meter` is the reading at the last completion, written by markTaskComplete
+ *
+ * The index stores the current reading on the task as `meter_reading`. A task with both
+ * `interval` and `meter_interval` is due at whichever comes first.
+ */
+export class Meter {
+  /**
+   * Whether the task has a usage-based schedule
+   */
+  static isMeterTask(task: Pick<UpkeepTask, 'meter_interval'>): boolean {
+    return Number(task.meter_interval) > 0;
+  }
+
+  /**
+   * Whether the task also (or only) has a time-based schedule
+   */
+  static hasTimeSchedule(task: Pick<UpkeepTask, 'interval' | 'interval_unit' | 'rrule'>): boolean {
+    return (Number(task.interval) > 0 && !!task.interval_unit) || !!task.rrule;
+  }
+
+  /**
+   * Use left until the task is due (negative once it is over), or null when the current
+   * reading or the reading at the last completion is unknown
+   */
+  static remaining(task: Pick<UpkeepTask, 'meter_interval' | 'meter_reading' | 'last_meter'>): number | null {
+    const reading = this.toNumber(task.meter_reading);
+    const lastMeter = this.toNumber(task.last_meter);
+    if (!this.isMeterTask(task) || reading === null || lastMeter === null) {
+      return null;
+    }
+    return Number(task.meter_interval) - (reading - lastMeter);
+  }
+
+  /**
+   * Use left below which the task counts as due soon
+   */
+  static warnAmount(task: Pick<UpkeepTask, 'meter_interval'>): number {
+    return Number(task.meter_interval) * METER_WARN_SHARE;
+  }
+
+  /**
+   * The note holding the task's meter reading, or null when `meter` does not resolve
+   */
+  static resolve(app: App, task: MeterFields): TFile | null {
+    const linkpath = this.linkpath(task.meter);
+    return linkpath ? app.metadataCache.getFirstLinkpathDest(linkpath, task.file.path) : null;
+  }
+
+  /**
+   * Current reading of the task's meter, or null when the note or value is missing
+   */
+  static read(app: App, task: MeterFields): number | null {
+    const file = this.resolve(app, task);
+    if (!file) {
+      if (RECURRING_UPKEEP_LOGGING_ENABLED && task.meter) {
+        console.warn('[Recurring Upkeep] Meter note not found', { taskName: task.file.name, meter: task.meter });
+      }
+      return null;
+    }
+
+    const field = task.meter_field ? String(task.meter_field) : DEFAULT_METER_FIELD;
+    return this.toNumber(app.metadataCache.getFileCache(file)?.frontmatter?.[field]);
+  }
+
+  /**
+   * Link target from a `meter` value: "[[Bike|my bike]]", "Bike", "Vehicles/Bike.md" or a Dataview link
+   */
+  private static linkpath(value: unknown): string | null {
+    if (value && typeof value === 'object' && 'path' in value) {
+      return String((value as { path: unknown }).path);
+    }
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const linkpath = value.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].split('#')[0].trim();
+    return linkpath || null;
+  }
+
+  private static toNumber(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    // Readings are often written with thousands separators, like 12,345
+    const reading = Number(String(value).replace(/[,_\s]/g, ''));
+    return isNaN(reading) ? null : reading;
+  }
+}
@@ -0,0 +1,249 @@
+import { DateUtils } from './DateUtils';
+import { CalendarRule, CalendarRulePart, CalendarPeriod } from './CalendarRule';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * The supported subset of an RFC 5545 recurrence rule
+ */
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: CalendarRulePart[];
+  byMonthDay: CalendarRulePart[];
+  byMonth: number[]; // 1-12
+  count?: number;
+  until?: string; // YYYY-MM-DD
+  dtstart?: string; // YYYY-MM-DD
+}
+
+const FREQUENCIES: Record<RRuleFrequency, { period: CalendarPeriod; unit: string }> = {
+  DAILY: { period: 'day', unit: 'days' },
+  WEEKLY: { period: 'week', unit: 'weeks' },
+  MONTHLY: { period: 'month', unit: 'months' },
+  YEARLY: { period: 'year', unit: 'years' },
+};
+
+const RRULE_WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+// Same safety limit as CalendarRule
+const MAX_PERIODS = 10000;
+
+/**
+ * iCalendar recurrence rules (`rrule:` frontmatter), e.g. `FREQ=MONTHLY;BYDAY=1SA;BYMONTH=3,6,9,12`
+ *
+ * Supports FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, COUNT, UNTIL and WKST (weeks always
+ * start on Monday). A `DTSTART` line may precede the rule; otherwise the task's anchor_date,
+ * or else its last_done date, starts the series. Rules using other parts are rejected rather
+ * than expanded wrongly.
+ */
+export class RRule {
+  /**
+   * Parse an rrule value; returns null when it is missing, malformed or uses unsupported parts
+   */
+  static parse(value: unknown): ParsedRRule | null {
+    if (typeof value !== 'string' || !value.trim()) {
+      return null;
+    }
+
+    let dtstart: string | undefined;
+    let ruleText = '';
+
+    for (const line of value.trim().split(/\s+(?=RRULE:|DTSTART)|\r?\n/i)) {
+      const trimmed = line.trim();
+      if (/^DTSTART/i.test(trimmed)) {
+        dtstart = this.parseRRuleDate(trimmed.split(/[:=]/).pop() || '') || undefined;
+        if (!dtstart) return this.reject(value, 'DTSTART');
+      } else if (trimmed) {
+        ruleText = trimmed.replace(/^RRULE:/i, '');
+      }
+    }
+
+    const fields = new Map<string, string>();
+    for (const pair of ruleText.split(';').filter(part => part.trim())) {
+      const [key, fieldValue] = pair.split('=');
+      if (!key || fieldValue === undefined) return this.reject(value, pair);
+      fields.set(key.trim().toUpperCase(), fieldValue.trim().toUpperCase());
+    }
+
+    const freq = fields.get('FREQ') as RRuleFrequency | undefined;
+    if (!freq || !(freq in FREQUENCIES)) {
+      return this.reject(value, 'FREQ');
+    }
+
+    const rule: ParsedRRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [], dtstart };
+
+    for (const [key, fieldValue] of fields) {
+      const list = fieldValue.split(',');
+
+      switch (key) {
+        case 'FREQ':
+        case 'WKST':
+          break;
+        case 'INTERVAL':
+          rule.interval = Number(fieldValue);
+          if (!Number.isInteger(rule.interval) || rule.interval <= 0) return this.reject(value, key);
+          break;
+        case 'COUNT':
+          rule.count = Number(fieldValue);
+          if (!Number.isInteger(rule.count) || rule.count <= 0) return this.reject(value, key);
+          break;
+        case 'UNTIL':
+          rule.until = this.parseRRuleDate(fieldValue) || undefined;
+          if (!rule.until) return this.reject(value, key);
+          break;
+        case 'BYMONTH':
+          rule.byMonth = list.map(Number);
+          if (rule.byMonth.some(month => !Number.isInteger(month) || month < 1 || month > 12)) return this.reject(value, key);
+          break;
+        case 'BYMONTHDAY': {
+          const days = list.map(Number);
+          if (freq === 'WEEKLY' || days.some(day => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) {
+            return this.reject(value, key);
+          }
+          rule.byMonthDay = days.map(day => ({ kind: 'month-day', day }));
+          break;
+        }
+        case 'BYDAY':
+          for (const entry of list) {
+            const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+            if (!match) return this.reject(value, key);
+
+            const weekday = RRULE_WEEKDAYS[match[2]];
+            if (match[1] === undefined) {
+              rule.byDay.push({ kind: 'weekday', weekday });
+              continue;
+            }
+
+            // Positions are counted within the month, so they need a monthly context
+            const nth = Number(match[1]);
+            const monthly = freq === 'MONTHLY' || (freq === 'YEARLY' && fields.has('BYMONTH'));
+            if (!monthly || nth === 0 || Math.abs(nth) > 5) return this.reject(value, key);
+            rule.byDay.push({ kind: 'nth-weekday', nth, weekday });
+          }
+          break;
+        default:
+          return this.reject(value, key);
+      }
+    }
+
+    if (rule.count && rule.until) {
+      return this.reject(value, 'COUNT with UNTIL');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Interval unit matching the rule's frequency, so interval-based code keeps working
+   */
+  static intervalUnit(rule: ParsedRRule): string {
+    return FREQUENCIES[rule.freq].unit;
+  }
+
+  /**
+   * First occurrence after lastDone (or the first occurrence when never done)
+   * Returns null when the series has ended through COUNT or UNTIL
+   */
+  static nextDueDate(rule: ParsedRRule, startDate: string, lastDone?: string): string | null {
+    const start = DateUtils.parseLocalDate(rule.dtstart || startDate);
+    if (isNaN(start.getTime())) {
+      return null;
+    }
+
+    let from = new Date(start);
+    if (lastDone) {
+      const lastDoneDate = DateUtils.parseLocalDate(lastDone);
+      if (isNaN(lastDoneDate.getTime())) {
+        return null;
+      }
+      lastDoneDate.setDate(lastDoneDate.getDate() + 1);
+      from = lastDoneDate > from ? lastDoneDate : from;
+    }
+
+    const until = rule.until ? DateUtils.parseLocalDate(rule.until) : null;
+    const { byDay, byMonthDay, byMonth } = this.withDefaults(rule, start);
+    const period = FREQUENCIES[rule.freq].period;
+    const firstPeriod = CalendarRule.startOfPeriod(start, period);
+    let occurrences = 0;
+
+    for (let k = 0; k < MAX_PERIODS; k++) {
+      const periodStart = CalendarRule.addPeriods(firstPeriod, k * rule.interval, period);
+      const periodEnd = CalendarRule.addPeriods(periodStart, 1, period);
+
+      if (until && periodStart > until) {
+        return null;
+      }
+      // COUNT needs every earlier occurrence, so only skip ahead without it
+      if (!rule.count && periodEnd <= from) {
+        continue;
+      }
+
+      const day = periodStart < start ? new Date(start) : new Date(periodStart);
+      for (; day < periodEnd; day.setDate(day.getDate() + 1)) {
+        if (byMonth.length > 0 && !byMonth.includes(day.getMonth() + 1)) continue;
+        if (byMonthDay.length > 0 && !CalendarRule.matches(day, byMonthDay)) continue;
+        if (byDay.length > 0 && !CalendarRule.matches(day, byDay)) continue;
+
+        if (until && day > until) {
+          return null;
+        }
+        occurrences++;
+        if (rule.count && occurrences > rule.count) {
+          return null;
+        }
+        if (day >= from) {
+          return DateUtils.toDateString(day);
+        }
+      }
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.warn('[Recurring Upkeep] No occurrence found for rrule', { rule, startDate });
+    }
+
+    return null;
+  }
+
+  /**
+   * Without BYDAY or BYMONTHDAY, RFC 5545 takes the missing day (and month) from the start date
+   */
+  private static withDefaults(rule: ParsedRRule, start: Date): Pick<ParsedRRule, 'byDay' | 'byMonthDay' | 'byMonth'> {
+    const { byDay, byMonthDay, byMonth } = rule;
+
+    if (byDay.length > 0 || byMonthDay.length > 0 || rule.freq === 'DAILY') {
+      return { byDay, byMonthDay, byMonth };
+    }
+
+    if (rule.freq === 'WEEKLY') {
+      return { byDay: [{ kind: 'weekday', weekday: start.getDay() }], byMonthDay, byMonth };
+    }
+
+    return {
+      byDay,
+      byMonthDay: [{ kind: 'month-day', day: start.getDate() }],
+      byMonth: rule.freq === 'YEARLY' && byMonth.length === 0 ? [start.getMonth() + 1] : byMonth
+    };
+  }
+
+  /**
+   * Accepts 20240315, 20240315T090000Z and 2024-03-15
+   */
+  private static parseRRuleDate(value: string): string | null {
+    const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!match) {
+      return null;
+    }
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : DateUtils.toDateString(date);
+  }
+
+  private static reject(value: unknown, part: string): null {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.warn('[Recurring Upkeep] Unsupported rrule', { value, part });
+    }
+    return null;
+  }
+}
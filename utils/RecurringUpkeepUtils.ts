@@ -1,6 +1,17 @@
 import { App, TFile, FrontMatterCache } from 'obsidian';
-import { UpkeepTask, TaskStatus, MarkCompleteResult } from '../types';
+import { UpkeepTask, TaskStatus, TaskState, MarkCompleteResult, CompletionRecord, CompletionDetails, HistoryItem, HistoryEdit, HistoryEvent } from '../types';
+import { HistoryStorage } from '../settings';
 import { DateUtils } from './DateUtils';
+import { TaskSchema } from './TaskSchema';
+import { SettingsUtils } from './SettingsUtils';
+import { CalendarRule } from './CalendarRule';
+import { RRule } from './RRule';
+import { Season } from './Season';
+import { Meter } from './Meter';
+import { WorkCalendar } from './WorkCalendar';
+import { FlexibleWindow } from './FlexibleWindow';
+import { CompletionHistoryParser, HistoryColumn } from './CompletionHistoryParser';
+import { HistoryStore } from './HistoryStore';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 
@@ -29,7 +40,19 @@ interface ObsidianAppWithPlugins extends App {
   };
 }
 
+// Frontmatter fields markTaskComplete may change besides last_done
+const COMPLETION_FIELDS = ['next_due', 'snoozed_until', 'anchor_date', 'completed_occurrences', 'last_meter'];
+
+// Completions kept for undoing during a session
+const MAX_UNDOABLE_COMPLETIONS = 20;
+
+// Every history storage, for moving entries from the others into the configured one
+const HISTORY_STORAGES: HistoryStorage[] = ['table', 'frontmatter', 'sidecar', 'log'];
+
 export class RecurringUpkeepUtils {
+  // Most recent completion last
+  private static completions: CompletionRecord[] = [];
+
   static calculateIntervalInDays(interval: number, intervalUnit: string): number {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Calculating interval in days', {
@@ -50,6 +73,10 @@ export class RecurringUpkeepUtils {
       result = Number(interval) * 30;
     } else if (normalizedUnit === "year" || normalizedUnit === "years") {
       result = Number(interval) * 365;
+    } else if (normalizedUnit === "hour" || normalizedUnit === "hours") {
+      result = Number(interval) / 24;
+    } else if (normalizedUnit === "minute" || normalizedUnit === "minutes") {
+      result = Number(interval) / (24 * 60);
     } else {
       result = Number(interval);
     }
@@ -65,7 +92,7 @@ export class RecurringUpkeepUtils {
     return result;
   }
 
-  static getFrequencyDescription(interval: number, intervalUnit: string): string {
+  static getFrequencyDescription(interval: number, intervalUnit: string, rules?: Pick<UpkeepTask, 'on' | 'rrule' | 'meter_interval' | 'meter_unit' | 'interval_min' | 'interval_max'>): string {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Getting frequency description', {
         interval,
@@ -75,7 +102,7 @@ export class RecurringUpkeepUtils {
 
     // Use the i18n system for consistent localization, with fallback
     try {
-      const result = I18nUtils.formatFrequency(interval, intervalUnit);
+      const result = I18nUtils.formatFrequency(interval, intervalUnit, rules);
       
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.debug('[Recurring Upkeep] Frequency description from i18n', {
@@ -123,6 +150,60 @@ export class RecurringUpkeepUtils {
   }
 
   static determineTaskStatus(task: UpkeepTask, now: string | null = null): TaskStatus {
+    const status = this.determineScheduleStatus(task, now);
+    return Meter.isMeterTask(task) ? this.applyMeter(task, status) : status;
+  }
+
+  /**
+   * Usage-based tasks: the meter decides for tasks without a time interval, and takes over
+   * from the calendar whenever it is the more urgent of the two (whichever comes first)
+   */
+  private static applyMeter(task: UpkeepTask, status: TaskStatus): TaskStatus {
+    const activeStates: TaskState[] = ['overdue', 'grace', 'due-soon', 'in-window', 'up-to-date'];
+    // Finished, not started, paused, dormant and snoozed tasks stay quiet whatever the meter says
+    if (!activeStates.includes(status.state)) {
+      return status;
+    }
+
+    const remaining = Meter.remaining(task);
+    const timeBased = Meter.hasTimeSchedule(task);
+
+    // Without a reading at the last completion there is nothing to count from
+    if (remaining === null) {
+      return timeBased
+        ? { ...status, meterRemaining: null }
+        : { state: 'overdue', status: this.getLocalizedOverdue(), daysRemaining: -9999, calculatedNextDue: null, graceDays: 0, meterRemaining: null };
+    }
+
+    const meterState: TaskState = remaining <= 0 ? 'overdue' : remaining <= Meter.warnAmount(task) ? 'due-soon' : 'up-to-date';
+    if (timeBased && activeStates.indexOf(status.state) <= activeStates.indexOf(meterState)) {
+      return { ...status, meterRemaining: remaining };
+    }
+
+    const result: TaskStatus = {
+      state: meterState,
+      status: meterState === 'up-to-date' ? this.getLocalizedUpToDate() : this.getLocalizedMeterStatus(remaining, task.meter_unit),
+      // Due by meter means due now, so the task can be completed right away
+      daysRemaining: meterState === 'overdue' ? Math.min(0, timeBased ? status.daysRemaining : 0) : (timeBased ? status.daysRemaining : 9999),
+      calculatedNextDue: timeBased ? status.calculatedNextDue : null,
+      graceDays: status.graceDays,
+      meterRemaining: remaining,
+      dueByMeter: true
+    };
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Meter decides task status', {
+        taskName: task.file?.name,
+        reading: task.meter_reading,
+        lastMeter: task.last_meter,
+        result
+      });
+    }
+
+    return result;
+  }
+
+  private static determineScheduleStatus(task: UpkeepTask, now: string | null = null): TaskStatus {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Determining task status', {
         taskName: task.file?.name,
@@ -133,11 +214,128 @@ export class RecurringUpkeepUtils {
       });
     }
 
-    if (!task.last_done || task.last_done === "" || task.last_done === "never") {
-      const result = {
+    const hasCompletion = !!task.last_done && task.last_done !== "never";
+    const followsCalendar = this.followsCalendar(task);
+    const nextDue = this.calculateTaskNextDue(task, now);
+
+    // Finite tasks retire after their end date or last occurrence
+    if (this.isFinished(task, nextDue, now)) {
+      const result: TaskStatus = {
+        state: 'finished',
+        status: this.getLocalizedFinished(),
+        daysRemaining: 9999,
+        calculatedNextDue: null,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task finished', {
+          taskName: task.file?.name,
+          endDate: task.end_date,
+          maxOccurrences: task.max_occurrences,
+          completedOccurrences: task.completed_occurrences
+        });
+      }
+
+      return result;
+    }
+
+    // Before its start date a task only announces when it will first be due
+    const startDate = this.toDateField(task.start_date);
+    if (startDate && DateUtils.calculateDaysRemaining(startDate, now) > 0) {
+      const firstDue = nextDue || startDate;
+      const result: TaskStatus = {
+        state: 'not-started',
+        status: this.getLocalizedNotStarted(startDate),
+        daysRemaining: DateUtils.calculateDaysRemaining(firstDue, now),
+        calculatedNextDue: firstDue,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task not started yet', {
+          taskName: task.file?.name,
+          result
+        });
+      }
+
+      return result;
+    }
+
+    // Paused tasks sit out their schedule until they are resumed (or paused_until passes)
+    const pause = this.getActivePause(task, now);
+    if (pause) {
+      const result: TaskStatus = {
+        state: 'paused',
+        status: this.getLocalizedPaused(pause.until),
+        daysRemaining: pause.until ? DateUtils.calculateDaysRemaining(pause.until, now) : 9999,
+        calculatedNextDue: pause.until,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task paused', {
+          taskName: task.file?.name,
+          result
+        });
+      }
+
+      return result;
+    }
+
+    // Out of season the task is dormant until the season opens again
+    const season = Season.parse(task);
+    const today = now || DateUtils.today();
+    if (season && !Season.isActive(season, DateUtils.parseLocalDate(today))) {
+      const opens = Season.nextStart(season, today);
+      const result: TaskStatus = {
+        state: 'dormant',
+        status: this.getLocalizedDormant(opens),
+        daysRemaining: opens ? DateUtils.calculateDaysRemaining(opens, now) : 9999,
+        calculatedNextDue: opens,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task out of season', {
+          taskName: task.file?.name,
+          result
+        });
+      }
+
+      return result;
+    }
+
+    // A snooze pushes the task back to its snooze date, whatever the schedule says
+    const snoozedUntil = this.getActiveSnooze(task, nextDue, now);
+    if (snoozedUntil) {
+      const result: TaskStatus = {
+        state: 'snoozed',
+        status: this.getLocalizedSnoozed(snoozedUntil),
+        daysRemaining: DateUtils.calculateDaysRemaining(snoozedUntil, now),
+        calculatedNextDue: snoozedUntil,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task snoozed', {
+          taskName: task.file?.name,
+          nextDue,
+          result
+        });
+      }
+
+      return result;
+    }
+
+    // Anchored calendar schedules have a first due date even before the first completion
+    if (!hasCompletion && !nextDue) {
+      const result: TaskStatus = {
+        state: 'overdue',
         status: this.getLocalizedOverdue(),
         daysRemaining: -9999,
-        calculatedNextDue: null
+        calculatedNextDue: null,
+        graceDays: 0
       };
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -150,26 +348,56 @@ export class RecurringUpkeepUtils {
       return result;
     }
 
-    const nextDue = DateUtils.calculateNextDueDate(task.last_done, task.interval, task.interval_unit);
-    const daysRemaining = DateUtils.calculateDaysRemaining(nextDue || "", now);
+    // A recurrence rule whose COUNT or UNTIL has run out has nothing left to do
+    if (!nextDue && this.hasRRule(task)) {
+      const result: TaskStatus = {
+        state: 'up-to-date',
+        status: this.getLocalizedUpToDate(),
+        daysRemaining: 9999,
+        calculatedNextDue: null,
+        graceDays: 0
+      };
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Recurrence rule has ended', {
+          taskName: task.file?.name,
+          rrule: task.rrule
+        });
+      }
+
+      return result;
+    }
+
+    // Hour and minute tasks count down to the minute, in fractions of a day
+    const subDay = DateUtils.isSubDayUnit(task.interval_unit);
+    const daysRemaining = subDay
+      ? DateUtils.calculateTimeRemaining(nextDue || "", now)
+      : DateUtils.calculateDaysRemaining(nextDue || "", now, this.usesWorkingDays(task));
+    const graceDays = this.getGraceDays(task);
+    const window = FlexibleWindow.parse(task);
+    const windowOpens = window && nextDue ? FlexibleWindow.opens(window, nextDue, task.interval_unit, this.usesWorkingDays(task)) : null;
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Task status calculations', {
         taskName: task.file?.name,
+        schedule: followsCalendar ? 'calendar' : 'rolling',
         nextDue,
-        daysRemaining
+        daysRemaining,
+        windowOpens
       });
     }
 
-    let status: string;
-
-    if (DateUtils.isToday(task.last_done, now)) {
+    // Rolling schedules restart today; fixed and rule-based schedules keep their own calendar
+    if (!followsCalendar && !subDay && DateUtils.isToday(task.last_done!, now)) {
       const intervalInDays = this.calculateIntervalInDays(task.interval, task.interval_unit);
 
-      const result = {
-        status: this.getLocalizedUpToDate(),
+      const result: TaskStatus = {
+        state: 'up-to-date',
+        status: windowOpens ? this.getLocalizedNotYetDue(windowOpens) : this.getLocalizedUpToDate(),
         daysRemaining: intervalInDays,
-        calculatedNextDue: nextDue
+        calculatedNextDue: nextDue,
+        graceDays,
+        ...(window ? { windowOpens } : {})
       };
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -183,17 +411,37 @@ export class RecurringUpkeepUtils {
       return result;
     }
 
-    // Binary decision based on days remaining
-    if (daysRemaining <= 0) {
+    // Overdue from the due date on (or once the grace window has passed), due soon within the warning window;
+    // flexible windows are not yet due until they open and in-window until their upper bound
+    let state: TaskState;
+    let status: string;
+    if (daysRemaining <= 0 && graceDays > 0 && -daysRemaining <= graceDays) {
+      state = 'grace';
+      status = this.getLocalizedInGrace(-daysRemaining, graceDays);
+    } else if (daysRemaining <= 0) {
+      state = 'overdue';
       status = this.getLocalizedOverdue();
+    } else if (windowOpens) {
+      const untilOpen = subDay
+        ? DateUtils.calculateTimeRemaining(windowOpens, now)
+        : DateUtils.calculateDaysRemaining(windowOpens, now, this.usesWorkingDays(task));
+      state = untilOpen <= 0 ? 'in-window' : 'up-to-date';
+      status = untilOpen <= 0 ? this.getLocalizedInWindow(nextDue!) : this.getLocalizedNotYetDue(windowOpens);
+    } else if (daysRemaining <= this.getWarnDays(task)) {
+      state = 'due-soon';
+      status = this.getLocalizedDueSoon(daysRemaining);
     } else {
+      state = 'up-to-date';
       status = this.getLocalizedUpToDate();
     }
 
-    const result = {
+    const result: TaskStatus = {
+      state,
       status,
       daysRemaining,
-      calculatedNextDue: nextDue
+      calculatedNextDue: nextDue,
+      graceDays,
+      ...(window ? { windowOpens } : {})
     };
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -206,203 +454,987 @@ export class RecurringUpkeepUtils {
     return result;
   }
 
-  // Helper methods with fallbacks for when i18n is not available
-  private static getLocalizedOverdue(): string {
-    try {
-      return "⚠️ Overdue";
-    } catch {
-      return "⚠️ Overdue";
-    }
+  /**
+   * Fixed schedules (`schedule: fixed`) advance from the previous due date instead of the completion date
+   */
+  static isFixedSchedule(task: UpkeepTask): boolean {
+    return String(task.schedule || '').toLowerCase() === 'fixed';
   }
 
-  private static getLocalizedUpToDate(): string {
-    try {
-      return I18nUtils.t.status.upToDate;
-    } catch {
-      return "✅ Up to date";
+  /**
+   * Days before the due date at which a task counts as due soon
+   * A task's own `warn_days` overrides the global setting, which counts whole days
+   * and so does not apply to hour and minute tasks
+   */
+  static getWarnDays(task: UpkeepTask): number {
+    const own = Number(task.warn_days);
+    if (task.warn_days !== undefined && task.warn_days !== null && !isNaN(own) && own >= 0) {
+      return own;
     }
+    return DateUtils.isSubDayUnit(task.interval_unit) ? 0 : SettingsUtils.settings.dueSoonDays;
   }
 
-  static async markTaskComplete(app: App, filePath: string): Promise<MarkCompleteResult> {
-    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-      console.info('[Recurring Upkeep] Starting mark task complete', {
-        filePath
-      });
+  /**
+   * The task's `snoozed_until` date while it still postpones the task: it lies after today
+   * and after the scheduled due date. Returns null otherwise.
+   */
+  static getActiveSnooze(task: UpkeepTask, nextDue: string | null, now: string | null = null): string | null {
+    if (!task.snoozed_until) {
+      return null;
     }
 
-    const startTime = RECURRING_UPKEEP_LOGGING_ENABLED ? performance.now() : 0;
-
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const currentTimestamp = new Date().toISOString(); // Full timestamp for accurate days calculation
-      
-      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        console.debug('[Recurring Upkeep] Generated timestamps', {
-          today,
-          currentTimestamp
-        });
-      }
+    const snoozedUntil = DateUtils.parseLocalDate(String(task.snoozed_until));
+    if (isNaN(snoozedUntil.getTime())) {
+      return null;
+    }
 
-      const abstractFile = app.vault.getAbstractFileByPath(filePath);
-      if (!abstractFile) throw new Error("File not found");
+    const snoozeDate = DateUtils.toDateString(snoozedUntil);
+    if (DateUtils.calculateDaysRemaining(snoozeDate, now) <= 0) {
+      return null;
+    }
+    if (nextDue && DateUtils.parseLocalDate(nextDue).getTime() >= snoozedUntil.getTime()) {
+      return null;
+    }
 
-      if (!(abstractFile instanceof TFile)) {
-        throw new Error("Path does not point to a file");
-      }
-      const file = abstractFile;
-      
-      if (!file.stat) throw new Error("File is not a regular file");
+    return snoozeDate;
+  }
 
-      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        console.debug('[Recurring Upkeep] File validation passed', {
-          fileName: file.name,
-          fileSize: file.stat.size
-        });
-      }
+  /**
+   * Whether a task is paused: `paused: true` pauses it until it is resumed, `paused_until`
+   * until that date. Returns null for active tasks; `until` is null for an indefinite pause.
+   */
+  static getActivePause(task: UpkeepTask, now: string | null = null): { until: string | null } | null {
+    if (task.paused === true || String(task.paused).toLowerCase() === 'true') {
+      return { until: null };
+    }
 
-      // Get current task data before updating frontmatter
-      let previousLastDone: string | undefined;
-      let intervalDays: number = -1; // Default to -1 for missing/invalid frontmatter
-      
-      await app.fileManager.processFrontMatter(file, (fm: FrontMatterCache) => {
-        previousLastDone = fm.last_done;
-        
-        // Calculate interval in days
-        if (fm.interval && fm.interval_unit) {
-          intervalDays = this.calculateIntervalInDays(fm.interval, fm.interval_unit);
-        }
-        
-        if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-          console.debug('[Recurring Upkeep] Processing frontmatter', {
-            previousLastDone,
-            interval: fm.interval,
-            intervalUnit: fm.interval_unit,
-            intervalDays
-          });
-        }
-        
-        // Update frontmatter (existing logic) - keep using date only for consistency
-        fm.last_done = today;
-        if (fm.next_due) delete fm.next_due;
-      });
+    if (!task.paused_until) {
+      return null;
+    }
 
-      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        console.debug('[Recurring Upkeep] Frontmatter updated', {
-          previousLastDone,
-          newLastDone: today,
-          intervalDays
-        });
-      }
+    const pausedUntil = DateUtils.parseLocalDate(String(task.paused_until));
+    if (isNaN(pausedUntil.getTime())) {
+      return null;
+    }
 
-      // NEW: Add completion history entry using full timestamp for accurate calculation
-      try {
-        await this.appendCompletionHistory(app, file, previousLastDone, currentTimestamp, intervalDays);
-        
-        if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-          console.debug('[Recurring Upkeep] Completion history updated successfully');
-        }
-      } catch (historyError) {
-        const errorMessage = this.getLocalizedFailedToUpdateCompletionHistory();
-        console.warn(`${errorMessage}:`, historyError);
-        
-        console.error('[Recurring Upkeep] Failed to update completion history', {
-          error: historyError instanceof Error ? historyError.message : String(historyError),
-          stack: historyError instanceof Error ? historyError.stack : undefined
-        });
-        // Don't fail the whole operation if history update fails
-      }
+    const until = DateUtils.toDateString(pausedUntil);
+    return DateUtils.calculateDaysRemaining(until, now) > 0 ? { until } : null;
+  }
 
-      setTimeout(() => {
-        const obsidianApp = app as ObsidianAppWithPlugins;
-        const dataview = obsidianApp.plugins.plugins.dataview;
-        if (dataview && dataview.api) {
-          dataview.api.index.touch();
-          
-          if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-            console.debug('[Recurring Upkeep] Dataview index refreshed');
-          }
-        }
-      }, 500);
+  /**
+   * Days a task may be late before it counts as overdue, from its `grace` field
+   * Accepts a number of days or an amount with a unit ("3 days", "1 week", "2 hours"); anything else means no grace
+   */
+  static getGraceDays(task: UpkeepTask): number {
+    const graceDays = this.parseGraceDays(task.grace);
 
+    if (graceDays === null) {
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
-        const duration = performance.now() - startTime;
-        console.info('[Recurring Upkeep] Task completion successful', {
-          filePath,
-          duration: `${duration.toFixed(2)}ms`,
-          today
-        });
+        console.warn('[Recurring Upkeep] Ignoring invalid grace period', { taskName: task.file?.name, grace: task.grace });
       }
-
-      return { success: true, today };
-    } catch (error) {
-      console.error('[Recurring Upkeep] Task completion failed', {
-        filePath,
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      console.error(error);
-      return { success: false, error: (error as Error).message };
+      return 0;
     }
+
+    return graceDays;
   }
 
-  // NEW: Helper methods for completion history feature
+  /**
+   * Parse a grace value into days; 0 when it is missing, null when it cannot be read
+   */
+  static parseGraceDays(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+      return 0;
+    }
 
-  private static daysBetween(date1: string, date2: string): string {
-    const d1 = new Date(date1);
-    const d2 = new Date(date2);
-    const days = (d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24);
-    return this.formatDaysWithDecimal(days);
+    const match = String(value).trim().toLowerCase().match(/^(\d+)\s*(minutes?|hours?|days?|weeks?|months?|years?)?$/);
+    return match ? this.calculateIntervalInDays(Number(match[1]), match[2] || 'days') : null;
   }
 
-  private static formatDaysWithDecimal(days: number): string {
-    return parseFloat(days.toFixed(2)).toString();
+  /**
+   * Whether the task has a usable calendar rule (`on:` field, see CalendarRule)
+   */
+  static hasCalendarRule(task: UpkeepTask): boolean {
+    return CalendarRule.parse(task.on, task.interval_unit) !== null;
   }
 
-  private static formatDate(): string {
-    const now = new Date();
-    return now.getFullYear() + '-' + 
-           String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-           String(now.getDate()).padStart(2, '0');
+  /**
+   * Whether the task has a usable iCalendar recurrence rule (`rrule:` field, see RRule)
+   */
+  static hasRRule(task: UpkeepTask): boolean {
+    return RRule.parse(task.rrule) !== null;
   }
 
-  private static formatTime(): string {
-    const now = new Date();
-    return String(now.getHours()).padStart(2, '0') + ':' + 
-           String(now.getMinutes()).padStart(2, '0');
+  /**
+   * Fixed and rule-based schedules fall on calendar dates that do not move with completions
+   */
+  static followsCalendar(task: UpkeepTask): boolean {
+    return this.isFixedSchedule(task) || this.hasCalendarRule(task) || this.hasRRule(task);
   }
 
-  private static getSystemUsername(): string {
-    try {
-      // Graceful fallback chain for username detection
-      if (typeof require === 'undefined') return '-';
-      
-      const os = require('os');
-      if (!os) return '-';
-      
-      if (typeof os.userInfo !== 'function') return '-';
-      
-      const userInfo = os.userInfo();
-      if (!userInfo) return '-';
-      
-      if (typeof userInfo.username !== 'string') return '-';
-      
-      return userInfo.username;
-    } catch (error) {
-      // Any error in the chain results in fallback
-      return '-';
+  /**
+   * Next due date for a task, honouring its schedule mode
+   * Fixed schedules without an anchor_date behave like rolling ones until the
+   * first completion pins the anchor (see markTaskComplete)
+   */
+  static calculateTaskNextDue(task: UpkeepTask, now: string | null = null): string | null {
+    // Usage-based tasks without a time interval have no due date
+    if (!Meter.hasTimeSchedule(task)) {
+      return null;
     }
-  }
 
-  // NEW: Get localized completion history strings with fallbacks
-  private static getLocalizedCompletionHistorySection(): string {
-    try {
-      return I18nUtils.t.ui.labels.completionHistory;
-    } catch {
-      return 'Completion history';
+    // A skipped occurrence (or the opening of a season) moves the schedule on just like a completion
+    const lastDone = this.getScheduleBase(task, now);
+    const nextDue = lastDone && lastDone === task.last_done
+      ? this.countEarlyCompletion(task, lastDone, this.calculateNextDueAfter(task, lastDone))
+      : this.calculateNextDueAfter(task, lastDone);
+
+    // Nothing falls due before the task's start date
+    const startDate = this.toDateField(task.start_date);
+    if (!startDate || (nextDue && nextDue >= startDate)) {
+      return nextDue;
     }
+    if (!this.followsCalendar(task)) {
+      return this.toWorkingDay(task, startDate);
+    }
+
+    const dayBeforeStart = DateUtils.parseLocalDate(startDate);
+    dayBeforeStart.setDate(dayBeforeStart.getDate() - 1);
+    return this.calculateNextDueAfter(task, DateUtils.toDateString(dayBeforeStart));
   }
 
-  private static getLocalizedCompletionHistoryHeaders(): { date: string; time: string; daysSinceLast: string; daysScheduled: string; user: string } {
+  /**
+   * Calendar-bound tasks done shortly ahead of an occurrence count as done for it, so the
+   * next due date is the occurrence after (a Tuesday task done on Monday is next due the
+   * Tuesday after). "Shortly" is the due-soon window, at least a quarter of the gap to the
+   * following occurrence, and at most half of it. Rolling and hour or minute tasks are left
+   * alone.
+   */
+  private static countEarlyCompletion(task: UpkeepTask, lastDone: string, nextDue: string | null): string | null {
+    if (!nextDue || !this.followsCalendar(task) || DateUtils.isSubDayUnit(task.interval_unit) || DateUtils.hasTime(nextDue)) {
+      return nextDue;
+    }
+
+    const following = this.calculateNextDueAfter(task, nextDue);
+    if (!following) {
+      return nextDue;
+    }
+
+    const early = DateUtils.daysBetween(DateUtils.parseLocalDate(lastDone), DateUtils.parseLocalDate(nextDue));
+    const gap = DateUtils.daysBetween(DateUtils.parseLocalDate(nextDue), DateUtils.parseLocalDate(following));
+    const leadDays = Math.min(Math.max(this.getWarnDays(task), gap / 4), gap / 2);
+    return early <= leadDays ? following : nextDue;
+  }
+
+  private static calculateNextDueAfter(task: UpkeepTask, lastDone: string | undefined): string | null {
+    const startDate = this.toDateField(task.start_date) || undefined;
+
+    // Recurrence rules start at their DTSTART, the anchor, the start date, or else the last completion
+    const rrule = RRule.parse(task.rrule);
+    if (rrule) {
+      const seriesStart = rrule.dtstart || task.anchor_date || startDate || lastDone;
+      return seriesStart ? this.toWorkingDay(task, RRule.nextDueDate(rrule, seriesStart, lastDone)) : null;
+    }
+
+    // Calendar rules count their periods from the anchor, or else from the start date or last completion
+    const rule = CalendarRule.parse(task.on, task.interval_unit);
+    if (rule) {
+      const baseDate = task.anchor_date || startDate || lastDone;
+      return baseDate
+        ? this.toWorkingDay(task, CalendarRule.nextDueDate(rule, task.interval, task.interval_unit, baseDate, lastDone))
+        : null;
+    }
+
+    const workingDays = this.usesWorkingDays(task);
+    if (this.isFixedSchedule(task) && (task.anchor_date || startDate)) {
+      return DateUtils.calculateFixedNextDueDate(task.anchor_date || startDate!, lastDone, task.interval, task.interval_unit, workingDays);
+    }
+
+    return lastDone ? DateUtils.calculateNextDueDate(lastDone, task.interval, task.interval_unit, workingDays) : null;
+  }
+
+  /**
+   * Whether a task counts working days only: its own `working_days` field, or else the setting
+   */
+  static usesWorkingDays(task: UpkeepTask): boolean {
+    if (task.working_days !== undefined && task.working_days !== null && task.working_days !== '') {
+      return task.working_days === true || String(task.working_days).toLowerCase() === 'true';
+    }
+    return SettingsUtils.settings.workingDaysOnly;
+  }
+
+  /**
+   * A due date moved off weekends and holidays for working-day tasks
+   */
+  private static toWorkingDay(task: UpkeepTask, date: string | null): string | null {
+    if (!date || DateUtils.hasTime(date) || !this.usesWorkingDays(task)) {
+      return date;
+    }
+    return DateUtils.toDateString(WorkCalendar.nextWorkingDay(DateUtils.parseLocalDate(date)));
+  }
+
+  /**
+   * Whether a task with a finite lifetime has retired: its end_date has passed (or its next
+   * occurrence would fall after it), or it has been completed max_occurrences times
+   */
+  static isFinished(task: UpkeepTask, nextDue: string | null, now: string | null = null): boolean {
+    const endDate = this.toDateField(task.end_date);
+    if (endDate && (DateUtils.calculateDaysRemaining(endDate, now) < 0 || (nextDue !== null && nextDue.split('T')[0] > endDate))) {
+      return true;
+    }
+
+    const maxOccurrences = Number(task.max_occurrences);
+    return maxOccurrences > 0 && Number(task.completed_occurrences || 0) >= maxOccurrences;
+  }
+
+  /**
+   * A frontmatter date as YYYY-MM-DD, or null when it is missing or unreadable
+   */
+  private static toDateField(value: unknown): string | null {
+    if (!value) {
+      return null;
+    }
+    const date = DateUtils.parseLocalDate(String(value));
+    return isNaN(date.getTime()) ? null : DateUtils.toDateString(date);
+  }
+
+  /**
+   * Date the schedule continues from: the latest of the last completion, the last skipped
+   * occurrence and the start of the current season (so last season's completion goes stale)
+   */
+  static getScheduleBase(task: UpkeepTask, now: string | null = null): string | undefined {
+    const lastDone = task.last_done && task.last_done !== "never" ? task.last_done : undefined;
+    const season = Season.parse(task);
+    const seasonStart = season ? Season.currentStart(season, now || DateUtils.today()) : null;
+
+    return [task.last_skipped, seasonStart].reduce<string | undefined>((latest, candidate) => {
+      const date = candidate ? DateUtils.parseLocalDateTime(String(candidate)) : null;
+      if (!date || isNaN(date.getTime())) {
+        return latest;
+      }
+      if (latest && DateUtils.parseLocalDateTime(latest).getTime() >= date.getTime()) {
+        return latest;
+      }
+      return DateUtils.hasTime(candidate) ? DateUtils.toDateTimeString(date) : DateUtils.toDateString(date);
+    }, lastDone);
+  }
+
+  /**
+   * Whether the "Mark Complete" button should be offered, per the completion-button setting
+   */
+  static canComplete(task: TaskStatus & UpkeepTask, today: string): boolean {
+    switch (SettingsUtils.settings.completeButton) {
+      case 'never':
+        return false;
+      case 'always':
+        return !task.last_done || task.last_done !== today;
+      case 'when-due':
+      default:
+        // Show button if task is overdue, inside its flexible window or never completed
+        // Don't show if completed today
+        return !task.last_done || (task.last_done !== today && (task.daysRemaining <= 0 || task.state === 'in-window'));
+    }
+  }
+
+  // Helper methods with fallbacks for when i18n is not available
+  private static getLocalizedOverdue(): string {
+    try {
+      return "⚠️ Overdue";
+    } catch {
+      return "⚠️ Overdue";
+    }
+  }
+
+  private static getLocalizedInGrace(daysLate: number, graceDays: number): string {
+    try {
+      return I18nUtils.formatInGrace(daysLate, graceDays);
+    } catch {
+      return `⏳ ${daysLate} ${daysLate === 1 ? 'day' : 'days'} late (grace: ${graceDays} ${graceDays === 1 ? 'day' : 'days'})`;
+    }
+  }
+
+  private static getLocalizedSnoozed(until: string): string {
+    try {
+      return I18nUtils.t.status.snoozed(I18nUtils.formatShortDate(until));
+    } catch {
+      return `💤 Snoozed until ${until}`;
+    }
+  }
+
+  private static getLocalizedPaused(until: string | null): string {
+    try {
+      return I18nUtils.t.status.paused(until ? I18nUtils.formatShortDate(until) : undefined);
+    } catch {
+      return until ? `⏸️ Paused until ${until}` : '⏸️ Paused';
+    }
+  }
+
+  private static getLocalizedFinished(): string {
+    try {
+      return I18nUtils.t.status.finished;
+    } catch {
+      return '🏁 Finished';
+    }
+  }
+
+  private static getLocalizedNotStarted(startDate: string): string {
+    try {
+      return I18nUtils.t.status.notStarted(I18nUtils.formatShortDate(startDate));
+    } catch {
+      return `🕒 Starts ${startDate}`;
+    }
+  }
+
+  private static getLocalizedDormant(opens: string | null): string {
+    try {
+      return I18nUtils.t.status.dormant(opens ? I18nUtils.formatShortDate(opens) : '');
+    } catch {
+      return `🌙 Out of season until ${opens}`;
+    }
+  }
+
+  private static getLocalizedDueSoon(days: number): string {
+    try {
+      return I18nUtils.formatDueSoon(days);
+    } catch {
+      return `🔔 Due in ${days} ${days === 1 ? 'day' : 'days'}`;
+    }
+  }
+
+  private static getLocalizedInWindow(until: string): string {
+    try {
+      return I18nUtils.t.status.inWindow(I18nUtils.formatShortDate(until));
+    } catch {
+      return `🟡 In window until ${until}`;
+    }
+  }
+
+  private static getLocalizedNotYetDue(opens: string): string {
+    try {
+      return I18nUtils.t.status.notYetDue(I18nUtils.formatShortDate(opens));
+    } catch {
+      return `✅ Not yet due (window opens ${opens})`;
+    }
+  }
+
+  private static getLocalizedMeterStatus(remaining: number, unit?: string): string {
+    try {
+      return I18nUtils.formatMeterStatus(remaining, unit);
+    } catch {
+      return remaining <= 0 ? `⚠️ Overdue by ${-remaining} ${unit || ''}`.trim() : `🔔 Due in ${remaining} ${unit || ''}`.trim();
+    }
+  }
+
+  private static getLocalizedUpToDate(): string {
+    try {
+      return I18nUtils.t.status.upToDate;
+    } catch {
+      return "✅ Up to date";
+    }
+  }
+
+  /**
+   * Mark a task done now, or at `completedAt` (YYYY-MM-DDTHH:mm) for work logged after the fact
+   * A backdated completion goes into the history in date order; it only moves `last_done`
+   * when it is later than the completion already recorded there
+   * `details` from the completion modal become extra history columns
+   */
+  static async markTaskComplete(
+    app: App,
+    filePath: string,
+    scheduleIndex?: number,
+    completedAt?: string,
+    details?: CompletionDetails
+  ): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Starting mark task complete', {
+        filePath,
+        scheduleIndex,
+        completedAt
+      });
+    }
+
+    const startTime = RECURRING_UPKEEP_LOGGING_ENABLED ? performance.now() : 0;
+
+    try {
+      const today = DateUtils.today();
+      const currentTimestamp = completedAt || DateUtils.currentTimestamp(); // Local time, for accurate days calculation
+      
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Generated timestamps', {
+          today,
+          currentTimestamp
+        });
+      }
+
+      const abstractFile = app.vault.getAbstractFileByPath(filePath);
+      if (!abstractFile) throw new Error("File not found");
+
+      if (!(abstractFile instanceof TFile)) {
+        throw new Error("Path does not point to a file");
+      }
+      const file = abstractFile;
+      
+      if (!file.stat) throw new Error("File is not a regular file");
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] File validation passed', {
+          fileName: file.name,
+          fileSize: file.stat.size
+        });
+      }
+
+      // Get current task data before updating frontmatter
+      let previousLastDone: string | undefined;
+      let intervalDays: number = -1; // Default to -1 for missing/invalid frontmatter
+      let newLastDone = completedAt ? completedAt.split('T')[0] : today;
+      
+      // Field names come from the configured task schema
+      const { lastDoneField, intervalField, intervalUnitField } = TaskSchema.fields;
+
+      // Tasks limited to a number of occurrences count the completions already in their history
+      const scheduleName = this.getScheduleName(app, file, scheduleIndex);
+      const limited = this.getCachedRecord(app, file, scheduleIndex)?.max_occurrences !== undefined;
+      const recordedCompletions = limited
+        ? (await HistoryStore.read(app, file, scheduleIndex, scheduleName)).filter(item => HistoryStore.isCompletion(item)).length
+        : 0;
+
+      // Usage-based tasks remember the meter reading they were completed at
+      const meterReading = this.readMeter(app, file, scheduleIndex);
+
+      // Everything the completion changes, for undoing it
+      const previousFields: Record<string, unknown> = {};
+      const historyStorage = HistoryStore.storage;
+      let history: { text: string; createdSection: boolean; recounted?: HistoryEdit } | null = null;
+      let historyError: string | undefined;
+
+      await this.processTaskFrontMatter(app, file, scheduleIndex, (fm: FrontMatterCache) => {
+        previousLastDone = fm[lastDoneField];
+        for (const field of [lastDoneField, ...COMPLETION_FIELDS]) {
+          previousFields[field] = fm[field];
+        }
+        
+        // Calculate interval in days
+        if (fm[intervalField] && fm[intervalUnitField]) {
+          intervalDays = this.calculateIntervalInDays(fm[intervalField], fm[intervalUnitField]);
+        }
+        
+        if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+          console.debug('[Recurring Upkeep] Processing frontmatter', {
+            previousLastDone,
+            interval: fm[intervalField],
+            intervalUnit: fm[intervalUnitField],
+            intervalDays
+          });
+        }
+        
+        // Hour and minute tasks need the time of completion, all others keep the date only
+        if (DateUtils.isSubDayUnit(fm[intervalUnitField])) {
+          newLastDone = currentTimestamp;
+        }
+
+        if (fm.max_occurrences !== undefined) {
+          fm.completed_occurrences = Math.max(recordedCompletions, Number(fm.completed_occurrences) || 0) + 1;
+        }
+
+        // Logging an older completion than the recorded one only adds to the history
+        if (completedAt && !this.isLaterCompletion(newLastDone, previousLastDone)) {
+          newLastDone = previousLastDone!;
+          return;
+        }
+
+        // Fixed schedules without an anchor get pinned to the due date being completed,
+        // so later completions (early or late) no longer shift the schedule
+        if (String(fm.schedule || '').toLowerCase() === 'fixed' && !fm.anchor_date) {
+          const previousDue = previousLastDone && fm[intervalField] && fm[intervalUnitField]
+            ? DateUtils.calculateNextDueDate(previousLastDone, fm[intervalField], fm[intervalUnitField])
+            : null;
+          fm.anchor_date = previousDue || newLastDone;
+        }
+
+        fm[lastDoneField] = newLastDone;
+        if (fm.next_due) delete fm.next_due;
+        // Completing ends any snooze
+        if (fm.snoozed_until) delete fm.snoozed_until;
+
+        if (meterReading) {
+          fm.last_meter = meterReading.value;
+        }
+      });
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Frontmatter updated', {
+          previousLastDone,
+          newLastDone,
+          intervalDays
+        });
+      }
+
+      // NEW: Add completion history entry using full timestamp for accurate calculation
+      try {
+        if (SettingsUtils.settings.recordHistory) {
+          const action: HistoryEvent = meterReading
+            ? { action: 'completed', reading: `${meterReading.value} ${meterReading.unit}`.trim() }
+            : { action: 'completed' };
+          history = await this.appendCompletionHistory(app, file, scheduleIndex, previousLastDone, currentTimestamp, intervalDays, action, scheduleName, !!completedAt, details);
+        
+          if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+            console.debug('[Recurring Upkeep] Completion history updated successfully');
+          }
+        }
+      } catch (error) {
+        historyError = this.getLocalizedFailedToUpdateCompletionHistory();
+        console.warn(`${historyError}:`, error);
+        
+        console.error('[Recurring Upkeep] Failed to update completion history', {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined
+        });
+        // Don't fail the whole operation if history update fails, but tell the caller
+      }
+
+      this.refreshDataviewIndex(app);
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        const duration = performance.now() - startTime;
+        console.info('[Recurring Upkeep] Task completion successful', {
+          filePath,
+          duration: `${duration.toFixed(2)}ms`,
+          today
+        });
+      }
+
+      const completion: CompletionRecord = {
+        filePath,
+        scheduleIndex,
+        taskName: scheduleName ? `${file.basename}: ${scheduleName}` : file.basename,
+        previousFields,
+        lastDone: newLastDone,
+        historyStorage,
+        historyText: history?.text ?? null,
+        createdHistorySection: history?.createdSection ?? false,
+        recountedHistory: history?.recounted
+      };
+      this.completions = [...this.completions, completion].slice(-MAX_UNDOABLE_COMPLETIONS);
+
+      return { success: true, today, completion, historyError };
+    } catch (error) {
+      console.error('[Recurring Upkeep] Task completion failed', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      console.error(error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Skip the current occurrence: the schedule moves on as if the task were done, but
+   * `last_done` stays untouched. The skipped date is written to `last_skipped` and a
+   * "skipped" row (with the optional reason) goes into the completion history.
+   */
+  static async skipTask(app: App, filePath: string, reason?: string, scheduleIndex?: number): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Skipping task occurrence', { filePath, reason, scheduleIndex });
+    }
+
+    try {
+      const today = DateUtils.today();
+      const file = this.getTaskFile(app, filePath);
+      const { intervalField, intervalUnitField } = TaskSchema.fields;
+      const meterReading = this.readMeter(app, file, scheduleIndex);
+      const scheduleName = this.getScheduleName(app, file, scheduleIndex);
+      let intervalDays = -1;
+      let skippedDate = today;
+
+      await this.processTaskFrontMatter(app, file, scheduleIndex, (fm: FrontMatterCache) => {
+        if (fm[intervalField] && fm[intervalUnitField]) {
+          intervalDays = this.calculateIntervalInDays(fm[intervalField], fm[intervalUnitField]);
+        }
+
+        const task = TaskSchema.toTask(file, fm, []);
+        // Hour and minute tasks skip to the minute rather than to the day
+        const current = DateUtils.isSubDayUnit(fm[intervalUnitField]) ? DateUtils.currentTimestamp() : today;
+        skippedDate = current;
+
+        // Same anchor pinning as markTaskComplete, so skipping a fixed schedule keeps its calendar
+        if (task && this.isFixedSchedule(task) && !fm.anchor_date) {
+          const base = this.getScheduleBase(task, current);
+          fm.anchor_date = (base && DateUtils.calculateNextDueDate(base, task.interval, task.interval_unit)) || current;
+          task.anchor_date = fm.anchor_date;
+        }
+
+        // Skipping ahead of time skips the upcoming occurrence; late skips count from now
+        const currentDue = task ? this.calculateTaskNextDue(task, current) : null;
+        if (currentDue && currentDue > current) {
+          skippedDate = currentDue;
+        }
+
+        fm.last_skipped = skippedDate;
+        if (fm.snoozed_until) delete fm.snoozed_until;
+        // The meter starts counting again too
+        if (meterReading) fm.last_meter = meterReading.value;
+      });
+
+      let historyError: string | undefined;
+      try {
+        if (SettingsUtils.settings.recordHistory) {
+          await this.appendHistoryRow(app, file, scheduleIndex, '-', String(intervalDays), { action: 'skipped', reason: reason?.trim() }, scheduleName);
+        }
+      } catch (error) {
+        historyError = this.getLocalizedFailedToUpdateCompletionHistory();
+        console.warn(`${historyError}:`, error);
+      }
+
+      this.refreshDataviewIndex(app);
+
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.info('[Recurring Upkeep] Task occurrence skipped', { filePath, skippedDate });
+      }
+
+      return { success: true, today, historyError };
+    } catch (error) {
+      console.error('[Recurring Upkeep] Skipping task failed', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Postpone a task until a date without completing it; `until: null` cancels the snooze
+   * The snooze is written to `snoozed_until` and recorded in the completion history
+   */
+  static async snoozeTask(app: App, filePath: string, until: string | null, scheduleIndex?: number): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Snoozing task', { filePath, until, scheduleIndex });
+    }
+
+    const action: HistoryEvent = until ? { action: 'snoozed', until } : { action: 'snooze-cancelled' };
+
+    return this.updateTaskState(app, filePath, scheduleIndex, action, fm => {
+      if (until) {
+        fm.snoozed_until = until;
+      } else {
+        delete fm.snoozed_until;
+      }
+    });
+  }
+
+  /**
+   * Take a task out of rotation until `until`, or until it is resumed when `until` is null
+   * Paused tasks stay in every view but never count as overdue
+   */
+  static async pauseTask(app: App, filePath: string, until: string | null, scheduleIndex?: number): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Pausing task', { filePath, until, scheduleIndex });
+    }
+
+    return this.updateTaskState(app, filePath, scheduleIndex, { action: 'paused', until: until || undefined }, fm => {
+      if (until) {
+        fm.paused_until = until;
+        delete fm.paused;
+      } else {
+        fm.paused = true;
+        delete fm.paused_until;
+      }
+    });
+  }
+
+  /**
+   * End a pause; the task is judged by its normal schedule again
+   */
+  static async resumeTask(app: App, filePath: string, scheduleIndex?: number): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Resuming task', { filePath, scheduleIndex });
+    }
+
+    return this.updateTaskState(app, filePath, scheduleIndex, { action: 'resumed' }, fm => {
+      delete fm.paused;
+      delete fm.paused_until;
+    });
+  }
+
+  /**
+   * The most recent completion this session that can still be undone, optionally for one task
+   */
+  static getUndoableCompletion(filePath?: string, scheduleIndex?: number): CompletionRecord | null {
+    for (let i = this.completions.length - 1; i >= 0; i--) {
+      const completion = this.completions[i];
+      if (filePath === undefined || (completion.filePath === filePath && completion.scheduleIndex === scheduleIndex)) {
+        return completion;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Take back a completion: restore the frontmatter fields it changed and remove its history row
+   * Refused when the task was completed or edited again since
+   */
+  static async undoCompletion(app: App, completion: CompletionRecord): Promise<MarkCompleteResult> {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Undoing completion', {
+        filePath: completion.filePath,
+        scheduleIndex: completion.scheduleIndex,
+        lastDone: completion.lastDone
+      });
+    }
+
+    try {
+      const today = DateUtils.today();
+      const file = this.getTaskFile(app, completion.filePath);
+      const { lastDoneField } = TaskSchema.fields;
+
+      await this.processTaskFrontMatter(app, file, completion.scheduleIndex, (fm: FrontMatterCache) => {
+        if (String(fm[lastDoneField]) !== completion.lastDone) {
+          throw new Error(this.getLocalizedCannotUndo());
+        }
+
+        for (const [field, value] of Object.entries(completion.previousFields)) {
+          if (value === undefined) {
+            delete fm[field];
+          } else {
+            fm[field] = value;
+          }
+        }
+      });
+
+      if (completion.historyText && !HistoryStore.usesTables(completion.historyStorage)) {
+        await HistoryStore.remove(app, file, completion.scheduleIndex, completion.historyText, completion.historyStorage, completion.recountedHistory);
+      } else if (completion.historyText) {
+        const tableFile = await HistoryStore.getTableFile(app, file, completion.historyStorage);
+        const content = tableFile ? await app.vault.read(tableFile) : '';
+        const restored = this.removeHistoryText(content, completion.historyText, completion.createdHistorySection, completion.recountedHistory);
+        if (tableFile && restored !== content) {
+          await app.vault.modify(tableFile, restored);
+        }
+      }
+
+      this.completions = this.completions.filter(other => other !== completion);
+      this.refreshDataviewIndex(app);
+
+      return { success: true, today };
+    } catch (error) {
+      console.error('[Recurring Upkeep] Undoing completion failed', {
+        filePath: completion.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Remove what a completion added to the history: the section it created, if nothing
+   * was added after it, else its row (the last line matching it)
+   * A completion recounted by a backdated row gets its original row back
+   */
+  static removeHistoryText(content: string, historyText: string, createdSection: boolean, recounted?: HistoryEdit): string {
+    if (createdSection && content.endsWith(historyText)) {
+      return content.slice(0, content.length - historyText.length);
+    }
+
+    const row = createdSection ? historyText.split('\n').pop()! : historyText;
+    const lines = content.split('\n');
+    const index = this.lastLineIndex(lines, row);
+    if (index === -1) {
+      return content;
+    }
+
+    lines.splice(index, 1);
+    const recountedIndex = recounted ? this.lastLineIndex(lines, recounted.updated) : -1;
+    if (recounted && recountedIndex !== -1) {
+      lines[recountedIndex] = recounted.original;
+    }
+    return lines.join('\n');
+  }
+
+  private static lastLineIndex(lines: string[], text: string): number {
+    return lines.map(line => line.trim()).lastIndexOf(text.trim());
+  }
+
+  /**
+   * Shared path for actions that only change a task's frontmatter and log a history row
+   */
+  private static async updateTaskState(
+    app: App,
+    filePath: string,
+    scheduleIndex: number | undefined,
+    action: HistoryEvent,
+    update: (fm: FrontMatterCache) => void
+  ): Promise<MarkCompleteResult> {
+    try {
+      const today = DateUtils.today();
+      const file = this.getTaskFile(app, filePath);
+      const scheduleName = this.getScheduleName(app, file, scheduleIndex);
+
+      await this.processTaskFrontMatter(app, file, scheduleIndex, update);
+
+      let historyError: string | undefined;
+      try {
+        if (SettingsUtils.settings.recordHistory) {
+          await this.appendHistoryRow(app, file, scheduleIndex, '-', '-', action, scheduleName);
+        }
+      } catch (error) {
+        historyError = this.getLocalizedFailedToUpdateCompletionHistory();
+        console.warn(`${historyError}:`, error);
+      }
+
+      this.refreshDataviewIndex(app);
+
+      return { success: true, today, historyError };
+    } catch (error) {
+      console.error('[Recurring Upkeep] Updating task failed', {
+        filePath,
+        action,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Date a snooze preset ends on, counted from today
+   */
+  static getSnoozeDate(days: number, from?: string): string {
+    const start = DateUtils.parseLocalDate(from || DateUtils.today());
+    start.setDate(start.getDate() + days);
+    return DateUtils.toDateString(start);
+  }
+
+  /**
+   * Current meter reading for a usage-based task note, or null for other tasks
+   */
+  private static readMeter(app: App, file: TFile, scheduleIndex?: number): { value: number; unit: string } | null {
+    const frontmatter = this.getCachedRecord(app, file, scheduleIndex);
+    if (!frontmatter || !Meter.isMeterTask(frontmatter)) {
+      return null;
+    }
+
+    const value = Meter.read(app, { file, meter: frontmatter.meter, meter_field: TaskSchema.toText(frontmatter.meter_field) });
+    return value === null ? null : { value, unit: TaskSchema.toText(frontmatter.meter_unit) ?? '' };
+  }
+
+  /**
+   * Cached frontmatter fields of the task: its `schedules:` entry, or the note's frontmatter
+   */
+  private static getCachedRecord(app: App, file: TFile, scheduleIndex?: number): Record<string, unknown> | null {
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    return frontmatter ? TaskSchema.getScheduleRecord(frontmatter, scheduleIndex) : null;
+  }
+
+  /**
+   * Name of the `schedules:` entry being acted on, which picks its history section
+   */
+  private static getScheduleName(app: App, file: TFile, scheduleIndex?: number): string | undefined {
+    if (scheduleIndex === undefined) {
+      return undefined;
+    }
+    return TaskSchema.scheduleName(this.getCachedRecord(app, file, scheduleIndex) || {}, scheduleIndex);
+  }
+
+  /**
+   * Update the task's own frontmatter fields; a `schedules:` entry is changed in place
+   */
+  private static async processTaskFrontMatter(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    update: (fm: FrontMatterCache) => void
+  ): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (frontmatter: FrontMatterCache) => {
+      const record = TaskSchema.getScheduleRecord(frontmatter, scheduleIndex);
+      if (!record) throw new Error("Schedule not found");
+      update(record);
+    });
+  }
+
+  private static getTaskFile(app: App, filePath: string): TFile {
+    const abstractFile = app.vault.getAbstractFileByPath(filePath);
+    if (!abstractFile) throw new Error("File not found");
+
+    if (!(abstractFile instanceof TFile)) {
+      throw new Error("Path does not point to a file");
+    }
+
+    return abstractFile;
+  }
+
+  private static refreshDataviewIndex(app: App): void {
+    setTimeout(() => {
+      const obsidianApp = app as ObsidianAppWithPlugins;
+      const dataview = obsidianApp.plugins.plugins.dataview;
+      if (dataview && dataview.api) {
+        dataview.api.index.touch();
+        
+        if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+          console.debug('[Recurring Upkeep] Dataview index refreshed');
+        }
+      }
+    }, 500);
+  }
+
+  // NEW: Helper methods for completion history feature
+
+  private static daysBetween(date1: string, date2: string): string {
+    const d1 = DateUtils.parseLocalDateTime(date1);
+    const d2 = DateUtils.parseLocalDateTime(date2);
+    const days = DateUtils.wallClockDiff(d1, d2) / (1000 * 60 * 60 * 24);
+    return this.formatDaysWithDecimal(days);
+  }
+
+  private static formatDaysWithDecimal(days: number): string {
+    return parseFloat(days.toFixed(2)).toString();
+  }
+
+  private static formatDate(): string {
+    const now = DateUtils.currentTime();
+    return now.getFullYear() + '-' + 
+           String(now.getMonth() + 1).padStart(2, '0') + '-' + 
+           String(now.getDate()).padStart(2, '0');
+  }
+
+  private static formatTime(): string {
+    const now = DateUtils.currentTime();
+    return String(now.getHours()).padStart(2, '0') + ':' + 
+           String(now.getMinutes()).padStart(2, '0');
+  }
+
+  private static getSystemUsername(): string {
+    if (!SettingsUtils.settings.recordUser) return '-';
+
+    try {
+      // Graceful fallback chain for username detection
+      if (typeof require === 'undefined') return '-';
+      
+      const os = require('os');
+      if (!os) return '-';
+      
+      if (typeof os.userInfo !== 'function') return '-';
+      
+      const userInfo = os.userInfo();
+      if (!userInfo) return '-';
+      
+      if (typeof userInfo.username !== 'string') return '-';
+      
+      return userInfo.username;
+    } catch (error) {
+      // Any error in the chain results in fallback
+      return '-';
+    }
+  }
+
+  // NEW: Get localized completion history strings with fallbacks
+  private static getLocalizedCompletionHistorySection(): string {
+    try {
+      return I18nUtils.t.ui.labels.completionHistory;
+    } catch {
+      return 'Completion history';
+    }
+  }
+
+  private static getLocalizedCompletionHistoryHeaders(): { date: string; time: string; daysSinceLast: string; daysScheduled: string; user: string; action: string; note: string } {
     try {
       return {
         date: I18nUtils.t.ui.labels.date,
@@ -410,6 +1442,8 @@ export class RecurringUpkeepUtils {
         daysSinceLast: I18nUtils.t.ui.labels.daysSinceLast,
         daysScheduled: I18nUtils.t.ui.labels.daysScheduled,
         user: I18nUtils.t.ui.labels.user,
+        action: I18nUtils.t.ui.labels.action,
+        note: I18nUtils.t.ui.labels.note,
       };
     } catch {
       return {
@@ -418,10 +1452,51 @@ export class RecurringUpkeepUtils {
         daysSinceLast: 'Days Since Last',
         daysScheduled: 'Days Scheduled',
         user: 'User',
+        action: 'Action',
+        note: 'Note',
       };
     }
   }
 
+  /**
+   * A history entry's action as the Action column words it, in the current language
+   */
+  private static getLocalizedHistoryAction(event: HistoryEvent): string {
+    const { action, reason, reading, until } = event;
+    try {
+      const history = I18nUtils.t.ui.history;
+      if (action === 'completed') return reading ? history.completedAt(reading) : history.completed;
+      if (action === 'snoozed') return history.snoozed(until || '');
+      if (action === 'skipped') return history.skipped(reason || '');
+      if (action === 'paused') return history.paused(until);
+      if (action === 'snooze-cancelled') return history.snoozeCancelled;
+      if (action === 'resumed') return history.resumed;
+      return event.text || '';
+    } catch {
+      if (action === 'snoozed') return `Snoozed until ${until}`;
+      if (action === 'skipped') return reason ? `Skipped: ${reason}` : 'Skipped';
+      if (action === 'paused') return until ? `Paused until ${until}` : 'Paused';
+      if (action === 'resumed') return 'Resumed';
+      if (action === 'completed') return reading ? `Completed at ${reading}` : 'Completed';
+      return action === 'snooze-cancelled' ? 'Snooze cancelled' : event.text || '';
+    }
+  }
+
+  /**
+   * Free text (like a skip reason) as a single Markdown table cell
+   */
+  private static toTableCell(text: string | undefined): string {
+    return (text || '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  }
+
+  private static getLocalizedCannotUndo(): string {
+    try {
+      return I18nUtils.t.ui.messages.cannotUndo;
+    } catch {
+      return 'The task has changed since it was completed';
+    }
+  }
+
   private static getLocalizedFailedToUpdateCompletionHistory(): string {
     try {
       return I18nUtils.t.ui.messages.failedToUpdateCompletionHistory;
@@ -443,13 +1518,97 @@ export class RecurringUpkeepUtils {
     return content + newRow;
   }
 
+  /**
+   * Add a row to the end of the history table under one of the section headings
+   * A table at the end of the note is appended to; anything after it (like the
+   * next schedule's section) stays below the new row
+   */
+  private static insertHistoryRow(content: string, sections: string[], newRow: string): string {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => sections.includes(line.trim()));
+
+    let lastRowIndex = -1;
+    for (let i = headingIndex + 1; headingIndex !== -1 && i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line.startsWith('|')) {
+        lastRowIndex = i;
+      } else if (lastRowIndex !== -1 || line.startsWith('#')) {
+        break;
+      }
+    }
+
+    if (lastRowIndex === -1 || lines.slice(lastRowIndex + 1).every(line => line.trim() === '')) {
+      return this.smartAppendToTable(content, newRow);
+    }
+
+    lines.splice(lastRowIndex + 1, 0, newRow);
+    return lines.join('\n');
+  }
+
+  /**
+   * Insert a completion row into the history table in date order, for completions logged later
+   * Days since last of the new row and of the completion after it are counted from their
+   * neighbouring completions. Returns the new content, the row as inserted and, when one
+   * was recounted, the next completion's row before and after.
+   */
+  static insertCompletionInOrder(content: string, sections: string[], newRow: string): { content: string; row: string; recounted?: HistoryEdit } {
+    const entries = CompletionHistoryParser.parseSection(content, sections);
+    if (entries.length === 0) {
+      return { content: this.insertHistoryRow(content, sections, newRow), row: newRow };
+    }
+
+    const lines = content.split('\n');
+    const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+    // Cells are found by header, like the parser finds them
+    const columns = CompletionHistoryParser.columns(this.getHistoryHeader(content, sections));
+    const dateIndex = columns.indexOf('date');
+    const timeIndex = columns.indexOf('time');
+    const daysIndex = columns.indexOf('daysSinceLast');
+    const newCells = CompletionHistoryParser.cells(newRow);
+    const completedAt = `${newCells[dateIndex]}T${newCells[timeIndex] || '00:00'}`;
+    const insertAt = entries.find(entry => entry.timestamp > completedAt)?.line ?? entries[entries.length - 1].line + 1;
+
+    const completions = entries.filter(entry => CompletionHistoryParser.isCompletion(entry));
+    const previous = completions.filter(entry => entry.line < insertAt).pop();
+    const next = completions.find(entry => entry.line >= insertAt);
+
+    if (previous && daysIndex !== -1) {
+      newCells[daysIndex] = this.daysBetween(previous.timestamp, completedAt);
+    }
+    let recounted: HistoryEdit | undefined;
+    if (next && daysIndex !== -1) {
+      const nextCells = CompletionHistoryParser.cells(lines[next.line]);
+      nextCells[daysIndex] = this.daysBetween(completedAt, next.timestamp);
+      recounted = { original: lines[next.line], updated: formatRow(nextCells) };
+      lines[next.line] = recounted.updated;
+    }
+
+    const row = formatRow(newCells);
+    lines.splice(insertAt, 0, row);
+    return { content: lines.join('\n'), row, recounted };
+  }
+
+  /**
+   * Whether a completion at `date` comes after the recorded `last_done` (or there is none)
+   */
+  private static isLaterCompletion(date: string, lastDone: string | undefined): boolean {
+    const previous = lastDone ? DateUtils.parseLocalDateTime(String(lastDone)) : null;
+    return !previous || isNaN(previous.getTime()) || DateUtils.parseLocalDateTime(date) >= previous;
+  }
+
   private static async appendCompletionHistory(
     app: App,
     file: TFile,
+    scheduleIndex: number | undefined,
     previousLastDone: string | undefined,
     currentTimestamp: string,
-    intervalDays: number
-  ): Promise<void> {
+    intervalDays: number,
+    action: HistoryEvent,
+    scheduleName?: string,
+    backdated = false,
+    details?: CompletionDetails
+  ): Promise<{ text: string; createdSection: boolean; recounted?: HistoryEdit }> {
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Appending completion history', {
         fileName: file.name,
@@ -459,39 +1618,67 @@ export class RecurringUpkeepUtils {
       });
     }
 
+    // Calculate days since last completion
+    // (backdated rows are counted from the completion before them in the table)
+    const daysSinceLast = previousLastDone && (!backdated || this.isLaterCompletion(currentTimestamp, previousLastDone)) ?
+      this.daysBetween(previousLastDone, currentTimestamp) : '-';
+
+    return this.appendHistoryRow(app, file, scheduleIndex, daysSinceLast, String(intervalDays), action, scheduleName, backdated ? currentTimestamp : undefined, details);
+  }
+
+  /**
+   * Append one row to the note's history table, creating the section when missing
+   * With the sidecar storage the table lives in the sidecar note; the frontmatter list and
+   * the log get the row as an entry instead
+   * Every row records what happened in the Action column (completion, snooze, ...)
+   * Each entry of a `schedules:` list keeps its own table, headed with the schedule name
+   * Returns the text that was added: the row, or the whole section when it was created
+   * With `completedAt` the row is dated then and goes into the table in date order, and the
+   * completion after it, when recounted, is returned too
+   * Measurements and the note from `details` go into columns after Action, added when missing
+   */
+  private static async appendHistoryRow(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    daysSinceLast: string,
+    daysScheduled: string,
+    event: HistoryEvent,
+    scheduleName?: string,
+    completedAt?: string,
+    details?: CompletionDetails
+  ): Promise<{ text: string; createdSection: boolean; recounted?: HistoryEdit }> {
     const startTime = RECURRING_UPKEEP_LOGGING_ENABLED ? performance.now() : 0;
 
-    const content = await app.vault.read(file);
+    const storage = HistoryStore.storage;
+    if (!HistoryStore.usesTables(storage)) {
+      const item = this.toHistoryItem(daysSinceLast, daysScheduled, event, completedAt, details);
+      const { text, recounted } = await HistoryStore.add(app, file, scheduleIndex, scheduleName, item, !!completedAt, storage);
+      return { text, createdSection: false, recounted };
+    }
+
+    // The note itself, or its sidecar note
+    const tableFile = (await HistoryStore.getTableFile(app, file, storage, true))!;
+    const content = await app.vault.read(tableFile);
     
     // Check for completion history section in any locale to prevent duplicates
-    const completionHistorySections = [
-      '## Completion history',  // English
-      '## Erledigungsverlauf',  // German
-      // Add more locales here as needed
-    ];
-    
-    const hasCompletionHistorySection = completionHistorySections.some(section => 
-      content.includes(section)
-    );
+    const sections = CompletionHistoryParser.sections(scheduleName);
+    const hasCompletionHistorySection = content.split('\n').some(line => sections.includes(line.trim()));
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Completion history section detection', {
         hasCompletionHistorySection,
         contentLength: content.length,
-        sectionsChecked: completionHistorySections
+        sectionsChecked: sections
       });
     }
     
-    // Calculate days since last completion
-    const daysSinceLast = previousLastDone ? 
-      this.daysBetween(previousLastDone, currentTimestamp) : '-';
-    
     // Get current date and time as separate values
-    const date = this.formatDate();
-    const time = this.formatTime();
+    const [date, time] = completedAt ? completedAt.split('T') : [this.formatDate(), this.formatTime()];
     
     // Get system username with graceful fallback
     const username = this.getSystemUsername();
+    const action = this.toTableCell(this.getLocalizedHistoryAction(event));
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
       console.debug('[Recurring Upkeep] Completion history row data', {
@@ -499,19 +1686,28 @@ export class RecurringUpkeepUtils {
         date,
         time,
         username,
-        intervalDays
+        daysScheduled,
+        action
       });
     }
     
     // Create new table row
-    const newRow = `| ${date} | ${time} | ${daysSinceLast} | ${intervalDays} | ${username} |`;
+    const rowCells = [date, time, daysSinceLast, daysScheduled, username, action];
+    let newRow = `| ${rowCells.join(' | ')} |`;
+    let tableSection = '';
+    let recounted: HistoryEdit | undefined;
     
     if (!hasCompletionHistorySection) {
       // Add new section with table using current locale
-      const sectionTitle = this.getLocalizedCompletionHistorySection();
+      const sectionTitle = scheduleName
+        ? `${this.getLocalizedCompletionHistorySection()}: ${scheduleName}`
+        : this.getLocalizedCompletionHistorySection();
       const headers = this.getLocalizedCompletionHistoryHeaders();
+      const detailCells = this.getDetailCells(details, []);
+      const extraColumns = Object.keys(detailCells);
+      newRow = `| ${[...rowCells, ...extraColumns.map(column => detailCells[column])].join(' | ')} |`;
       
-      const tableSection = `\n\n## ${sectionTitle}\n\n| ${headers.date} | ${headers.time} | ${headers.daysSinceLast} | ${headers.daysScheduled} | ${headers.user} |\n|------|------|----------------|----------------|------|\n` + newRow;
+      tableSection = `\n\n## ${sectionTitle}\n\n| ${headers.date} | ${headers.time} | ${headers.daysSinceLast} | ${headers.daysScheduled} | ${headers.user} | ${headers.action} |${extraColumns.map(column => ` ${column} |`).join('')}\n|------|------|----------------|----------------|------|------|${'------|'.repeat(extraColumns.length)}\n` + newRow;
       const newContent = content + tableSection;
       
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -524,10 +1720,24 @@ export class RecurringUpkeepUtils {
         });
       }
       
-      await app.vault.modify(file, newContent);
+      await app.vault.modify(tableFile, newContent);
     } else {
-      // Use smart append to handle existing table correctly
-      const newContent = this.smartAppendToTable(content, newRow);
+      // Older tables have no Action column yet; widen them before appending
+      let upgradedContent = this.addActionColumn(content, sections);
+
+      // Columns for the measurements and note, in the table's own order
+      const detailCells = this.getDetailCells(details, this.getHistoryHeader(upgradedContent, sections));
+      upgradedContent = this.addHistoryColumns(upgradedContent, sections, Object.keys(detailCells));
+      const values = { date, time, daysSinceLast, daysScheduled, user: username, action };
+      newRow = this.formatHistoryRow(this.getHistoryHeader(upgradedContent, sections), values, detailCells);
+
+      // Add the row at the end of the existing table, or in date order when backdated
+      let newContent: string;
+      if (completedAt) {
+        ({ content: newContent, row: newRow, recounted } = this.insertCompletionInOrder(upgradedContent, sections, newRow));
+      } else {
+        newContent = this.insertHistoryRow(upgradedContent, sections, newRow);
+      }
       
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.debug('[Recurring Upkeep] Appending to existing completion history', {
@@ -537,7 +1747,7 @@ export class RecurringUpkeepUtils {
         });
       }
       
-      await app.vault.modify(file, newContent);
+      await app.vault.modify(tableFile, newContent);
     }
 
     if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -548,9 +1758,300 @@ export class RecurringUpkeepUtils {
         hasExistingSection: hasCompletionHistorySection
       });
     }
+
+    return hasCompletionHistorySection
+      ? { text: newRow, createdSection: false, recounted }
+      : { text: tableSection, createdSection: true };
+  }
+
+  /**
+   * Number of completions recorded in a note's history table (a schedule's own table when named)
+   * Rows without an Action cell come from versions that only recorded completions
+   */
+  static countCompletions(content: string, scheduleName?: string): number {
+    return CompletionHistoryParser.parse(content, scheduleName)
+      .filter(entry => CompletionHistoryParser.isCompletion(entry))
+      .length;
+  }
+
+  /**
+   * Add columns missing from the header of the history table under one of the section headings
+   * Existing rows keep their cells; Markdown renders the missing ones as empty
+   */
+  static addHistoryColumns(content: string, sections: string[], columns: string[]): string {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => sections.includes(line.trim()));
+    const headerIndex = lines.findIndex((line, index) => headingIndex !== -1 && index > headingIndex && line.trim().startsWith('|'));
+    const separatorIndex = headerIndex + 1;
+    if (headerIndex === -1 || !lines[separatorIndex]?.trim().startsWith('|')) {
+      return content;
+    }
+
+    const header = CompletionHistoryParser.cells(lines[headerIndex]);
+    const missing = columns.filter(column => !header.includes(column));
+    if (missing.length === 0) {
+      return content;
+    }
+
+    lines[headerIndex] = `${lines[headerIndex].trimEnd()}${missing.map(column => ` ${column} |`).join('')}`;
+    lines[separatorIndex] = `${lines[separatorIndex].trimEnd()}${'------|'.repeat(missing.length)}`;
+    return lines.join('\n');
+  }
+
+  /**
+   * A row for an existing history table: each value goes under the header naming its
+   * column, in whatever order and locale the table has; measurements and the note by name
+   */
+  static formatHistoryRow(header: string[], values: Partial<Record<HistoryColumn, string>>, detailCells: Record<string, string> = {}): string {
+    const columns = CompletionHistoryParser.columns(header);
+    const cells = header.map((name, index) => {
+      const column = columns[index];
+      return detailCells[name] ?? (column ? values[column] : undefined) ?? '';
+    });
+    return `| ${cells.join(' | ')} |`;
+  }
+
+  /**
+   * Column names of the history table under one of the section headings
+   */
+  private static getHistoryHeader(content: string, sections: string[]): string[] {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => sections.includes(line.trim()));
+    const header = lines.find((line, index) => headingIndex !== -1 && index > headingIndex && line.trim().startsWith('|'));
+    return header ? CompletionHistoryParser.cells(header) : [];
+  }
+
+  /**
+   * History cells for the completion modal's entries, keyed by column
+   * Measurements use the field name as column; the note goes into the table's note column in any locale
+   */
+  private static getDetailCells(details: CompletionDetails | undefined, header: string[]): Record<string, string> {
+    const cells: Record<string, string> = {};
+    if (!details) {
+      return cells;
+    }
+
+    for (const [field, value] of Object.entries(details.measurements)) {
+      cells[field] = this.toTableCell(value);
+    }
+    if (details.note.trim()) {
+      const noteColumn = header.find(column => CompletionHistoryParser.isNoteColumn(column)) || this.getLocalizedCompletionHistoryHeaders().note;
+      cells[noteColumn] = this.toTableCell(details.note);
+    }
+    return cells;
   }
 
+  /**
+   * A history row as an entry of the frontmatter list or the log
+   */
+  private static toHistoryItem(
+    daysSinceLast: string,
+    daysScheduled: string,
+    event: HistoryEvent,
+    completedAt?: string,
+    details?: CompletionDetails
+  ): HistoryItem {
+    const toNumber = (value: string) => value === '-' ? null : parseFloat(value);
+    const username = this.getSystemUsername();
+    const item: HistoryItem = {
+      date: completedAt || `${this.formatDate()}T${this.formatTime()}`,
+      days_since_last: toNumber(daysSinceLast),
+      days_scheduled: toNumber(daysScheduled),
+      user: username === '-' ? null : username,
+      action: event.action
+    };
+
+    // Only the details the action has, as the action is stored as a key
+    for (const field of ['reason', 'reading', 'until', 'text'] as const) {
+      if (event[field]) item[field] = event[field];
+    }
+
+    for (const [field, value] of Object.entries(details?.measurements ?? {})) {
+      if (value.trim()) item[field] = value.trim();
+    }
+    if (details?.note.trim()) {
+      item.note = details.note.trim();
+    }
+    return item;
+  }
+
+  /**
+   * Move a task's history from every other storage into `to`, merged in date order
+   * The target is written before the sources are cleared, so a failure loses nothing
+   * Returns the number of entries moved
+   */
+  static async migrateHistory(
+    app: App,
+    filePath: string,
+    scheduleIndex: number | undefined,
+    to: HistoryStorage = HistoryStore.storage
+  ): Promise<number> {
+    const file = this.getTaskFile(app, filePath);
+    const scheduleName = this.getScheduleName(app, file, scheduleIndex);
+
+    const sources: HistoryStorage[] = [];
+    const moved: HistoryItem[] = [];
+    for (const from of HISTORY_STORAGES.filter(storage => storage !== to)) {
+      const items = await HistoryStore.read(app, file, scheduleIndex, scheduleName, from);
+      if (items.length > 0) {
+        sources.push(from);
+        moved.push(...items);
+      }
+    }
+    if (moved.length === 0) {
+      return 0;
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Moving completion history', { filePath, scheduleIndex, sources, to, entries: moved.length });
+    }
+
+    const timestamp = (item: HistoryItem) => item.date.includes('T') ? item.date : `${item.date}T00:00`;
+    const merged = [...await HistoryStore.read(app, file, scheduleIndex, scheduleName, to), ...moved]
+      .sort((a, b) => timestamp(a).localeCompare(timestamp(b)));
+
+    await this.writeHistory(app, file, scheduleIndex, scheduleName, merged, to);
+    for (const from of sources) {
+      await this.writeHistory(app, file, scheduleIndex, scheduleName, [], from);
+    }
+
+    this.refreshDataviewIndex(app);
+    return moved.length;
+  }
+
+  /**
+   * Replace a task's whole history in one storage; no entries removes it there
+   * A sidecar left without any history is moved to the trash
+   */
+  private static async writeHistory(
+    app: App,
+    file: TFile,
+    scheduleIndex: number | undefined,
+    scheduleName: string | undefined,
+    items: HistoryItem[],
+    storage: HistoryStorage
+  ): Promise<void> {
+    if (!HistoryStore.usesTables(storage)) {
+      await HistoryStore.replace(app, file, scheduleIndex, scheduleName, items, storage);
+      return;
+    }
 
+    const tableFile = await HistoryStore.getTableFile(app, file, storage, items.length > 0);
+    if (!tableFile) {
+      return;
+    }
+
+    const content = await app.vault.read(tableFile);
+    const section = items.length > 0 ? this.formatHistorySection(items, scheduleName) : '';
+    const newContent = this.replaceHistorySection(content, CompletionHistoryParser.sections(scheduleName), section);
+
+    if (storage === 'sidecar' && newContent.trim() === `# ${file.basename}`) {
+      await app.fileManager.trashFile(tableFile);
+    } else if (newContent !== content) {
+      await app.vault.modify(tableFile, newContent);
+    }
+  }
+
+  /**
+   * A history section with a table of the given entries, in the current language
+   * Measurements and the note get columns after Action
+   */
+  static formatHistorySection(items: HistoryItem[], scheduleName?: string): string {
+    const title = scheduleName
+      ? `${this.getLocalizedCompletionHistorySection()}: ${scheduleName}`
+      : this.getLocalizedCompletionHistorySection();
+    const headers = this.getLocalizedCompletionHistoryHeaders();
+
+    const measurementColumns: string[] = [];
+    for (const item of items) {
+      for (const field of Object.keys(HistoryStore.measurements(item))) {
+        if (!measurementColumns.includes(field)) measurementColumns.push(field);
+      }
+    }
+    const hasNotes = items.some(item => item.note);
+    const extraColumns = hasNotes ? [...measurementColumns, headers.note] : measurementColumns;
+
+    const formatNumber = (value: number | null) => value === null ? '-' : this.formatDaysWithDecimal(value);
+    const rows = items.map(item => {
+      const [date, time] = item.date.split('T');
+      const measurements = HistoryStore.measurements(item);
+      const cells = [
+        date,
+        time || '',
+        formatNumber(item.days_since_last),
+        formatNumber(item.days_scheduled),
+        item.user || '-',
+        this.toTableCell(this.getLocalizedHistoryAction(item)),
+        ...measurementColumns.map(field => this.toTableCell(measurements[field])),
+        ...(hasNotes ? [this.toTableCell(item.note)] : [])
+      ];
+      return `| ${cells.join(' | ')} |`;
+    });
+
+    return [
+      `## ${title}`,
+      '',
+      `| ${headers.date} | ${headers.time} | ${headers.daysSinceLast} | ${headers.daysScheduled} | ${headers.user} | ${headers.action} |${extraColumns.map(column => ` ${column} |`).join('')}`,
+      `|------|------|----------------|----------------|------|------|${'------|'.repeat(extraColumns.length)}`,
+      ...rows
+    ].join('\n');
+  }
+
+  /**
+   * Put `section` in place of the history section under one of the headings, or append it
+   * An empty `section` removes the history section with the blank lines before it
+   */
+  static replaceHistorySection(content: string, sections: string[], section: string): string {
+    const lines = content.split('\n');
+    let start = lines.findIndex(line => sections.includes(line.trim()));
+    if (start === -1) {
+      return section ? `${content.trimEnd()}\n\n${section}` : content;
+    }
+
+    let end = start + 1;
+    let inTable = false;
+    for (; end < lines.length; end++) {
+      const line = lines[end].trim();
+      if (line.startsWith('|')) {
+        inTable = true;
+      } else if (inTable || line.startsWith('#')) {
+        break;
+      }
+    }
+
+    if (!section) {
+      while (start > 0 && lines[start - 1].trim() === '') start--;
+    }
+    lines.splice(start, end - start, ...(section ? section.split('\n') : []));
+    return lines.join('\n');
+  }
+
+  /**
+   * Add an Action column to a five-column history table written by earlier versions
+   * Existing rows keep five cells; Markdown renders the missing cell as empty
+   */
+  static addActionColumn(content: string, sectionHeadings: string[]): string {
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => sectionHeadings.includes(line.trim()));
+    if (headingIndex === -1) {
+      return content;
+    }
+
+    const headerIndex = lines.findIndex((line, index) => index > headingIndex && line.trim().startsWith('|'));
+    const separatorIndex = headerIndex + 1;
+    if (headerIndex === -1 || !lines[separatorIndex]?.trim().startsWith('|')) {
+      return content;
+    }
+
+    const cellCount = lines[headerIndex].trim().split('|').length - 2;
+    if (cellCount !== 5) {
+      return content;
+    }
+
+    lines[headerIndex] = `${lines[headerIndex].trimEnd()} ${this.getLocalizedCompletionHistoryHeaders().action} |`;
+    lines[separatorIndex] = `${lines[separatorIndex].trimEnd()}------|`;
+    return lines.join('\n');
+  }
 
   // Debug helper function for troubleshooting real tasks
   static debugTask(task: UpkeepTask, now: string | null = null): TaskStatus {
@@ -574,7 +2075,7 @@ export class RecurringUpkeepUtils {
       console.log("!task.last_done:", !task.last_done);
       console.log("interval:", task.interval);
       console.log("interval_unit:", task.interval_unit);
-      console.log("Current time:", now || new Date().toISOString().split('T')[0]);
+      console.log("Current time:", now || DateUtils.today());
 
       console.log("\n🔧 RUNNING CALCULATIONS:");
       console.log("=========================");
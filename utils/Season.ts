@@ -0,0 +1,181 @@
+import { UpkeepTask } from '../types';
+import { DateUtils } from './DateUtils';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+/**
+ * Part of the year in which a task is active, as month-day values (MMDD, e.g. 315 for March 15)
+ * A range whose start lies after its end wraps around the new year
+ */
+export interface SeasonRange {
+  start: number;
+  end: number;
+}
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, januar: 1,
+  february: 2, feb: 2, februar: 2,
+  march: 3, mar: 3, märz: 3, maerz: 3,
+  april: 4, apr: 4,
+  may: 5, mai: 5,
+  june: 6, jun: 6, juni: 6,
+  july: 7, jul: 7, juli: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  october: 10, oct: 10, oktober: 10, okt: 10,
+  november: 11, nov: 11,
+  december: 12, dec: 12, dezember: 12, dez: 12,
+};
+
+// Long enough to cross any gap between two seasons
+const MAX_DAYS = 366;
+
+/**
+ * Seasonal active windows, written as `active_months` or `active_between` frontmatter
+ *
+ * - `active_months: [4-10]` (April through October; month names like `apr-oct` work too)
+ * - `active_months: [5, 6, 9]`
+ * - `active_between: 03-15..11-01` (MM-DD..MM-DD; `11-01..03-15` spans the new year)
+ *
+ * Outside its season a task is dormant. When the season opens, the schedule restarts from
+ * the season start instead of a completion from the previous season.
+ */
+export class Season {
+  /**
+   * The task's season, or null when it has none (or it cannot be read)
+   */
+  static parse(task: Pick<UpkeepTask, 'active_months' | 'active_between'>): SeasonRange[] | null {
+    const ranges: SeasonRange[] = [];
+
+    for (const entry of this.entries(task.active_months)) {
+      const range = this.parseMonthRange(entry);
+      if (!range) return this.reject(task.active_months, entry);
+      ranges.push(range);
+    }
+
+    for (const entry of this.entries(task.active_between)) {
+      const range = this.parseDateRange(entry);
+      if (!range) return this.reject(task.active_between, entry);
+      ranges.push(range);
+    }
+
+    return ranges.length > 0 ? ranges : null;
+  }
+
+  /**
+   * Whether a season field is present but cannot be read
+   */
+  static isInvalid(task: Pick<UpkeepTask, 'active_months' | 'active_between'>): boolean {
+    const hasField = this.entries(task.active_months).length > 0 || this.entries(task.active_between).length > 0;
+    return hasField && this.parse(task) === null;
+  }
+
+  /**
+   * Whether a date falls inside any range of the season
+   */
+  static isActive(ranges: SeasonRange[], date: Date): boolean {
+    const monthDay = (date.getMonth() + 1) * 100 + date.getDate();
+
+    return ranges.some(range => range.start <= range.end
+      ? monthDay >= range.start && monthDay <= range.end
+      : monthDay >= range.start || monthDay <= range.end);
+  }
+
+  /**
+   * First day of the active stretch containing the date (YYYY-MM-DD)
+   * Returns null when the date is out of season, or the task is active all year
+   */
+  static currentStart(ranges: SeasonRange[], date: string): string | null {
+    const day = DateUtils.parseLocalDate(date);
+    if (isNaN(day.getTime()) || !this.isActive(ranges, day)) {
+      return null;
+    }
+
+    // Adjacent ranges (like [4, 5, 6]) form one season, so walk back to its first day
+    for (let i = 0; i < MAX_DAYS; i++) {
+      const previous = new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+      if (!this.isActive(ranges, previous)) {
+        return DateUtils.toDateString(day);
+      }
+      day.setTime(previous.getTime());
+    }
+
+    return null;
+  }
+
+  /**
+   * First day on or after the date on which the season is open (YYYY-MM-DD)
+   */
+  static nextStart(ranges: SeasonRange[], date: string): string | null {
+    const day = DateUtils.parseLocalDate(date);
+    if (isNaN(day.getTime())) {
+      return null;
+    }
+
+    for (let i = 0; i <= MAX_DAYS; i++) {
+      if (this.isActive(ranges, day)) {
+        return DateUtils.toDateString(day);
+      }
+      day.setDate(day.getDate() + 1);
+    }
+
+    return null;
+  }
+
+  private static entries(value: unknown): string[] {
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+
+    return (Array.isArray(value) ? value : [value])
+      .flatMap(entry => String(entry).toLowerCase().split(','))
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0);
+  }
+
+  private static parseMonthRange(entry: string): SeasonRange | null {
+    const [from, to = from, ...rest] = entry.split(/\s*(?:-|–|\.\.)\s*/);
+    const startMonth = this.parseMonth(from);
+    const endMonth = this.parseMonth(to);
+
+    if (rest.length > 0 || startMonth === null || endMonth === null) {
+      return null;
+    }
+
+    // Whole months: from the 1st of the first to the end of the last
+    return { start: startMonth * 100 + 1, end: endMonth * 100 + 31 };
+  }
+
+  private static parseDateRange(entry: string): SeasonRange | null {
+    const match = entry.match(/^(\d{1,2})-(\d{1,2})\s*\.\.\s*(\d{1,2})-(\d{1,2})$/);
+    if (!match) {
+      return null;
+    }
+
+    const [startMonth, startDay, endMonth, endDay] = match.slice(1).map(Number);
+    if (!this.isMonthDay(startMonth, startDay) || !this.isMonthDay(endMonth, endDay)) {
+      return null;
+    }
+
+    return { start: startMonth * 100 + startDay, end: endMonth * 100 + endDay };
+  }
+
+  private static parseMonth(value: string): number | null {
+    if (value in MONTHS) {
+      return MONTHS[value];
+    }
+    const month = Number(value);
+    return Number.isInteger(month) && month >= 1 && month <= 12 ? month : null;
+  }
+
+  private static isMonthDay(month: number, day: number): boolean {
+    // Leap year, so February 29 is accepted
+    return month >= 1 && month <= 12 && day >= 1 && day <= new Date(2024, month, 0).getDate();
+  }
+
+  private static reject(value: unknown, entry: string): null {
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.warn('[Recurring Upkeep] Unusable season', { value, entry });
+    }
+    return null;
+  }
+}
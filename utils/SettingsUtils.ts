@@ -0,0 +1,23 @@
+import { RecurringUpkeepSettings, DEFAULT_SETTINGS } from '../settings';
+
+/**
+ * Global settings access for code that has no plugin instance at hand
+ * Falls back to the defaults until the plugin has loaded its data (e.g. in tests)
+ */
+export class SettingsUtils {
+  private static current: RecurringUpkeepSettings = DEFAULT_SETTINGS;
+
+  /**
+   * Install the settings loaded by the plugin
+   */
+  static init(settings: RecurringUpkeepSettings): void {
+    this.current = settings;
+  }
+
+  /**
+   * Get the active settings
+   */
+  static get settings(): RecurringUpkeepSettings {
+    return this.current;
+  }
+}
@@ -0,0 +1,126 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { TaskSchema } from './TaskSchema';
+import { DateUtils } from './DateUtils';
+import { CalendarRule } from './CalendarRule';
+import { RRule } from './RRule';
+import { Season } from './Season';
+import { Meter } from './Meter';
+import { FlexibleWindow } from './FlexibleWindow';
+import { RecurringUpkeepUtils } from './RecurringUpkeepUtils';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+export interface TaskProblem {
+  path: string;
+  problem: string;
+}
+
+const KNOWN_UNITS = ['minute', 'minutes', 'hour', 'hours', 'day', 'days', 'week', 'weeks', 'month', 'months', 'year', 'years'];
+
+/**
+ * Optional vault check run once the layout is ready
+ * Finds notes marked as recurring tasks whose schedule cannot be understood,
+ * which would otherwise silently be left out of every view
+ */
+export class StartupChecks {
+  static findProblems(app: App): TaskProblem[] {
+    const startTime = RECURRING_UPKEEP_LOGGING_ENABLED ? performance.now() : 0;
+    const problems: TaskProblem[] = [];
+
+    for (const file of app.vault.getMarkdownFiles()) {
+      const cache = app.metadataCache.getFileCache(file);
+      if (!cache || !TaskSchema.isRecurringTask(getAllTags(cache) || [], cache.frontmatter?.type)) {
+        continue;
+      }
+
+      const frontmatter = cache.frontmatter || {};
+
+      // Every entry of a schedules list is a task of its own
+      if (frontmatter.schedules !== undefined && frontmatter.schedules !== null) {
+        if (!Array.isArray(frontmatter.schedules) || frontmatter.schedules.length === 0) {
+          problems.push({ path: file.path, problem: `"schedules" must be a list of schedules` });
+          continue;
+        }
+
+        frontmatter.schedules.forEach((entry: unknown, index: number) => {
+          const record = TaskSchema.toRecord(entry);
+          const problem = record ? this.findTaskProblem(app, file, record) : 'must list the schedule fields';
+          if (problem) {
+            problems.push({ path: file.path, problem: `Schedule "${TaskSchema.scheduleName(record || {}, index)}": ${problem}` });
+          }
+        });
+        continue;
+      }
+
+      const problem = this.findTaskProblem(app, file, frontmatter);
+      if (problem) {
+        problems.push({ path: file.path, problem });
+      }
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      const duration = performance.now() - startTime;
+      console.info('[Recurring Upkeep] Startup checks completed', {
+        problemCount: problems.length,
+        duration: `${duration.toFixed(2)}ms`
+      });
+    }
+
+    return problems;
+  }
+
+  /**
+   * First problem with one task's schedule fields, or null when they are fine
+   */
+  private static findTaskProblem(app: App, file: TFile, frontmatter: Record<string, unknown>): string | null {
+    const { lastDoneField, intervalField, intervalUnitField } = TaskSchema.fields;
+    const interval = Number(frontmatter[intervalField]);
+    const unit = String(frontmatter[intervalUnitField] || '').toLowerCase();
+    const lastDone = frontmatter[lastDoneField];
+    const hasRRule = frontmatter.rrule !== undefined && frontmatter.rrule !== null;
+    const hasMeter = frontmatter.meter_interval !== undefined && frontmatter.meter_interval !== null;
+    const hasWindow = frontmatter.interval_min !== undefined || frontmatter.interval_max !== undefined;
+    // Usage-based and flexible-window tasks may go without an interval
+    const timeBased = !hasMeter || frontmatter[intervalField] !== undefined;
+
+    if (hasWindow && !FlexibleWindow.parse({ ...frontmatter, interval_unit: unit })) {
+      return `"interval_min" and "interval_max" must be positive numbers with interval_min ≤ interval_max, plus "${intervalUnitField}"`;
+    } else if (hasMeter && !Meter.isMeterTask(frontmatter)) {
+      return `"meter_interval" must be a positive number`;
+    } else if (hasMeter && !Meter.resolve(app, { file, meter: frontmatter.meter })) {
+      return `"meter" must link to the note holding the meter reading`;
+    } else if (hasRRule && !RRule.parse(frontmatter.rrule)) {
+      return `"rrule" must be a recurrence rule using FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, COUNT or UNTIL`;
+    } else if (hasRRule) {
+      // The rule replaces interval and interval_unit, only the dates still need checking
+      if (lastDone && lastDone !== 'never' && isNaN(DateUtils.parseLocalDate(String(lastDone)).getTime())) {
+        return `"${lastDoneField}" must be a date (YYYY-MM-DD)`;
+      }
+    } else if (timeBased && !hasWindow && (!frontmatter[intervalField] || isNaN(interval) || interval <= 0)) {
+      return `"${intervalField}" must be a positive number`;
+    } else if (timeBased && !KNOWN_UNITS.includes(unit)) {
+      return `"${intervalUnitField}" must be minutes, hours, days, weeks, months or years`;
+    } else if (lastDone && lastDone !== 'never' && isNaN(DateUtils.parseLocalDate(String(lastDone)).getTime())) {
+      return `"${lastDoneField}" must be a date (YYYY-MM-DD)`;
+    } else if (frontmatter.anchor_date && isNaN(DateUtils.parseLocalDate(String(frontmatter.anchor_date)).getTime())) {
+      return `"anchor_date" must be a date (YYYY-MM-DD)`;
+    } else if (frontmatter.last_skipped && isNaN(DateUtils.parseLocalDate(String(frontmatter.last_skipped)).getTime())) {
+      return `"last_skipped" must be a date (YYYY-MM-DD)`;
+    } else if (frontmatter.paused_until && isNaN(DateUtils.parseLocalDate(String(frontmatter.paused_until)).getTime())) {
+      return `"paused_until" must be a date (YYYY-MM-DD)`;
+    } else if (['start_date', 'end_date'].some(field => frontmatter[field] && isNaN(DateUtils.parseLocalDate(String(frontmatter[field])).getTime()))) {
+      return `"start_date" and "end_date" must be dates (YYYY-MM-DD)`;
+    } else if (frontmatter.max_occurrences !== undefined && frontmatter.max_occurrences !== null && !(Number.isInteger(Number(frontmatter.max_occurrences)) && Number(frontmatter.max_occurrences) > 0)) {
+      return `"max_occurrences" must be a positive whole number`;
+    } else if (Season.isInvalid(frontmatter)) {
+      return `"active_months" must list months like [4-10], "active_between" ranges like 03-15..11-01`;
+    } else if (frontmatter.on !== undefined && frontmatter.on !== null && !CalendarRule.parse(frontmatter.on, unit)) {
+      return `"on" must name weekdays or days of the month that fit the interval unit`;
+    } else if (frontmatter.record !== undefined && frontmatter.record !== null && !(Array.isArray(frontmatter.record) ? frontmatter.record.every((field: unknown) => typeof field === 'string') : typeof frontmatter.record === 'string')) {
+      return `"record" must list the names of the values to log, like [front_bar, rear_bar]`;
+    } else if (RecurringUpkeepUtils.parseGraceDays(frontmatter.grace) === null) {
+      return `"grace" must be a number of days, or an amount like "3 days", "1 week" or "2 hours"`;
+    }
+
+    return null;
+  }
+}
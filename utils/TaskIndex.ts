@@ -0,0 +1,295 @@
+import { App, Events, EventRef, Plugin, TAbstractFile, TFile } from 'obsidian';
+import { UpkeepTask, ProcessedTask, TaskSource } from '../types';
+import { TaskProcessor } from './TaskProcessor';
+import { Meter } from './Meter';
+import { TaskSchema } from './TaskSchema';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+/**
+ * Central in-memory index of all recurring tasks in the vault
+ *
+ * Built once from the active task source, then kept up to date incrementally
+ * from metadata cache and vault events so views never need a full vault scan.
+ * Usage-based tasks also get the current reading of their meter note, which
+ * is refreshed whenever that note changes or is deleted.
+ *
+ * Tasks are grouped by note path, since a note with a `schedules:` list holds
+ * several tasks. Single tasks are looked up by their TaskSchema.taskKey.
+ *
+ * Events:
+ * - 'changed' (path: string): a note's tasks were added, updated or removed
+ * - 'rebuilt': the whole index was rebuilt (e.g. the task source changed)
+ * - 'schedule-renamed' (path, previousName, name): an entry of a `schedules:` list got a new name
+ */
+export class TaskIndex extends Events {
+  private app: App;
+  private source: TaskSource;
+  private tasks: Map<string, UpkeepTask[]> = new Map();
+  // Meter note path -> task notes counting on it, so a change only refreshes the tasks it affects
+  private meterTasks: Map<string, Set<string>> = new Map();
+  // Task notes whose meter note does not resolve (yet); retried on every change
+  private unresolvedMeters: Set<string> = new Set();
+  private built = false;
+
+  constructor(app: App, source: TaskSource) {
+    super();
+    this.app = app;
+    this.source = source;
+  }
+
+  /**
+   * Switch to a different task source and rebuild from it
+   */
+  setSource(source: TaskSource): void {
+    this.source = source;
+    this.rebuild();
+  }
+
+  /**
+   * Full scan of the vault through the task source
+   */
+  rebuild(): void {
+    const startTime = RECURRING_UPKEEP_LOGGING_ENABLED ? performance.now() : 0;
+
+    this.tasks.clear();
+    this.meterTasks.clear();
+    this.unresolvedMeters.clear();
+    for (const task of this.source.getUpkeepTasks()) {
+      const noteTasks = this.tasks.get(task.file.path) || [];
+      noteTasks.push(this.withMeterReading(task));
+      this.tasks.set(task.file.path, noteTasks);
+    }
+    for (const [path, tasks] of this.tasks) {
+      this.indexMeters(path, tasks);
+    }
+    this.built = true;
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      const duration = performance.now() - startTime;
+      console.info('[Recurring Upkeep] Task index rebuilt', {
+        taskCount: this.size,
+        duration: `${duration.toFixed(2)}ms`
+      });
+    }
+
+    this.trigger('rebuilt');
+  }
+
+  /**
+   * Subscribe to metadata cache and vault events; cleaned up with the plugin
+   */
+  registerEvents(plugin: Plugin): void {
+    plugin.registerEvent(this.app.metadataCache.on('changed', (file: TFile) => {
+      // Add a small delay to ensure metadata cache and Dataview are fully updated
+      setTimeout(() => this.updateFile(file), 50);
+    }));
+
+    plugin.registerEvent(this.app.metadataCache.on('deleted', (file: TFile) => {
+      this.removePath(file.path);
+      // Tasks counting on a deleted meter note lose their reading
+      if (this.built) this.refreshMeterReadings(file.path);
+    }));
+
+    plugin.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+      this.removePath(oldPath);
+      if (this.built) this.refreshMeterReadings(oldPath);
+      if (file instanceof TFile) {
+        setTimeout(() => this.updateFile(file), 50);
+      }
+    }));
+  }
+
+  private updateFile(file: TFile): void {
+    if (!this.built) return;
+
+    // Any note can be a meter note, whether or not it is a task itself
+    this.refreshMeterReadings(file.path);
+
+    const tasks = this.source.getTasksForFile(file);
+    const wasIndexed = this.tasks.has(file.path);
+
+    if (tasks.length > 0) {
+      const indexed = tasks.map(task => this.withMeterReading(task));
+      this.triggerScheduleRenames(file.path, this.tasks.get(file.path) || [], indexed);
+      this.tasks.set(file.path, indexed);
+      this.indexMeters(file.path, indexed);
+    } else if (wasIndexed) {
+      this.tasks.delete(file.path);
+      this.indexMeters(file.path, []);
+    } else {
+      // Not a task before, not a task now - nothing to tell the views
+      return;
+    }
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.debug('[Recurring Upkeep] Task index updated', {
+        path: file.path,
+        taskCount: tasks.length,
+        action: tasks.length > 0 ? (wasIndexed ? 'updated' : 'added') : 'removed'
+      });
+    }
+
+    this.trigger('changed', file.path);
+  }
+
+  /**
+   * Tell listeners about schedules renamed in place, so their history can follow
+   * Added, removed or reordered entries shift the names around and are no renames
+   */
+  private triggerScheduleRenames(path: string, previous: UpkeepTask[], current: UpkeepTask[]): void {
+    if (previous.length !== current.length) return;
+
+    const previousNames = previous.map(task => task.schedule_name);
+    const names = current.map(task => task.schedule_name);
+    for (const task of current) {
+      const previousName = previous.find(other => other.schedule_index === task.schedule_index)?.schedule_name;
+      const name = task.schedule_name;
+      if (previousName && name && previousName !== name && !names.includes(previousName) && !previousNames.includes(name)) {
+        this.trigger('schedule-renamed', path, previousName, name);
+      }
+    }
+  }
+
+  private withMeterReading(task: UpkeepTask): UpkeepTask {
+    return Meter.isMeterTask(task) ? { ...task, meter_reading: Meter.read(this.app, task) } : task;
+  }
+
+  /**
+   * Remember which meter notes a note's tasks count on
+   */
+  private indexMeters(path: string, tasks: UpkeepTask[]): void {
+    for (const [meterPath, paths] of this.meterTasks) {
+      paths.delete(path);
+      if (paths.size === 0) this.meterTasks.delete(meterPath);
+    }
+    this.unresolvedMeters.delete(path);
+
+    for (const task of tasks.filter(task => Meter.isMeterTask(task))) {
+      const meterPath = Meter.resolve(this.app, task)?.path;
+      if (!meterPath) {
+        this.unresolvedMeters.add(path);
+      } else {
+        this.meterTasks.set(meterPath, (this.meterTasks.get(meterPath) || new Set()).add(path));
+      }
+    }
+  }
+
+  /**
+   * Re-read the meter of every task that counts on the given note, or whose meter
+   * did not resolve before
+   */
+  private refreshMeterReadings(meterPath: string): void {
+    const paths = new Set([...(this.meterTasks.get(meterPath) || []), ...this.unresolvedMeters]);
+    for (const path of paths) {
+      const tasks = this.tasks.get(path);
+      if (!tasks) continue;
+
+      let changed = false;
+      const refreshed = tasks.map(task => {
+        if (!Meter.isMeterTask(task)) {
+          return task;
+        }
+
+        const reading = Meter.read(this.app, task);
+        if (reading === task.meter_reading) {
+          return task;
+        }
+        changed = true;
+        return { ...task, meter_reading: reading };
+      });
+
+      // The meter note may have been created, renamed or deleted
+      this.indexMeters(path, refreshed);
+      if (changed) {
+        this.tasks.set(path, refreshed);
+        this.trigger('changed', path);
+      }
+    }
+  }
+
+  private removePath(path: string): void {
+    if (this.tasks.delete(path)) {
+      this.indexMeters(path, []);
+      if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.debug('[Recurring Upkeep] Task removed from index', { path });
+      }
+      this.trigger('changed', path);
+    }
+  }
+
+  private ensureBuilt(): void {
+    if (!this.built) {
+      this.rebuild();
+    }
+  }
+
+  // ========================================
+  // QUERIES
+  // ========================================
+
+  /**
+   * All raw tasks in the index
+   */
+  getTasks(): UpkeepTask[] {
+    this.ensureBuilt();
+    return Array.from(this.tasks.values()).flat();
+  }
+
+  /**
+   * The tasks a note declares, in `schedules:` order; empty if the note is not a recurring task
+   */
+  getTasksForPath(path: string): UpkeepTask[] {
+    this.ensureBuilt();
+    return this.tasks.get(path) || [];
+  }
+
+  /**
+   * The task with the given TaskSchema.taskKey, or null if it no longer exists
+   */
+  getTask(key: string): UpkeepTask | null {
+    // Obsidian does not allow '#' in file names, so the suffix is always a schedule index
+    const path = key.replace(/#\d+$/, '');
+    return this.getTasksForPath(path).find(task => TaskSchema.taskKey(task) === key) || null;
+  }
+
+  /**
+   * Status-enriched task for a TaskSchema.taskKey, or null if it no longer exists
+   */
+  getProcessedTask(key: string, now?: string): ProcessedTask | null {
+    const task = this.getTask(key);
+    return task ? TaskProcessor.processTask(task, now) : null;
+  }
+
+  /**
+   * Status-enriched tasks of a note, in `schedules:` order
+   */
+  getProcessedTasksForPath(path: string, now?: string): ProcessedTask[] {
+    return TaskProcessor.processTasks(this.getTasksForPath(path), now);
+  }
+
+  /**
+   * All tasks with status information, sorted by due date
+   */
+  getProcessedTasks(now?: string): ProcessedTask[] {
+    return TaskProcessor.sortTasks(TaskProcessor.processTasks(this.getTasks(), now));
+  }
+
+  isTask(path: string): boolean {
+    this.ensureBuilt();
+    return this.tasks.has(path);
+  }
+
+  get size(): number {
+    return this.getTasks().length;
+  }
+
+  on(name: 'changed', callback: (path: string) => unknown): EventRef;
+  on(name: 'rebuilt', callback: () => unknown): EventRef;
+  on(name: 'schedule-renamed', callback: (path: string, previousName: string, name: string) => unknown): EventRef;
+  on(
+    name: 'changed' | 'rebuilt' | 'schedule-renamed',
+    callback: ((path: string) => unknown) | (() => unknown) | ((path: string, previousName: string, name: string) => unknown)
+  ): EventRef {
+    return super.on(name, callback as (...data: unknown[]) => unknown);
+  }
+}
@@ -1,5 +1,6 @@
 import { UpkeepTask, ProcessedTask } from '../types';
 import { RecurringUpkeepUtils } from './RecurringUpkeepUtils';
+import { DateUtils } from './DateUtils';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 
 export class TaskProcessor {
@@ -14,7 +15,7 @@ export class TaskProcessor {
       });
     }
 
-    const nowStr = now || new Date().toISOString().split('T')[0];
+    const nowStr = now || DateUtils.today();
     const statusInfo = RecurringUpkeepUtils.determineTaskStatus(task, nowStr);
 
     const result = {
@@ -78,9 +79,9 @@ export class TaskProcessor {
       if (a.calculatedNextDue && !b.calculatedNextDue) return 1;
       if (!a.calculatedNextDue && !b.calculatedNextDue) return 0;
 
-      // Sort by due date
-      const dateA = new Date(a.calculatedNextDue!);
-      const dateB = new Date(b.calculatedNextDue!);
+      // Sort by due date; both dates and timestamps are local time
+      const dateA = DateUtils.parseLocalDateTime(a.calculatedNextDue!);
+      const dateB = DateUtils.parseLocalDateTime(b.calculatedNextDue!);
 
       return dateA.getTime() - dateB.getTime();
     });
@@ -0,0 +1,223 @@
+import { UpkeepTask, FileInfo } from '../types';
+import { TaskSchemaSettings } from '../settings';
+import { SettingsUtils } from './SettingsUtils';
+import { RRule } from './RRule';
+import { Meter } from './Meter';
+import { FlexibleWindow } from './FlexibleWindow';
+import { DateUtils } from './DateUtils';
+import { TFile } from 'obsidian';
+
+/**
+ * Maps between a note's frontmatter and the plugin's internal task shape
+ *
+ * Internally every task uses `last_done`, `interval` and `interval_unit`;
+ * the configured schema decides which frontmatter keys those are read from
+ * and written to, and which tag or type marks a note as a task.
+ *
+ * A note may declare several tasks in a `schedules:` list, e.g. a bicycle with
+ * tire pressure, chain lube and brake pads. Each entry holds its own schedule
+ * fields plus a `name`, and becomes a task of its own.
+ */
+export class TaskSchema {
+  /**
+   * Currently configured marker and field names
+   */
+  static get fields(): TaskSchemaSettings {
+    return SettingsUtils.settings.schema;
+  }
+
+  /**
+   * Check for recurring task markers: the configured tag or type value
+   * Tags may be given with or without the leading '#'
+   */
+  static isRecurringTask(tags: string[] | undefined, type: unknown): boolean {
+    const { taskTag, taskType } = this.fields;
+    const wantedTag = this.normalizeTag(taskTag);
+
+    if (wantedTag && (tags || []).some(tag => this.normalizeTag(tag) === wantedTag)) {
+      return true;
+    }
+
+    return !!taskType && type === taskType;
+  }
+
+  /**
+   * Build every task a note declares: one per `schedules:` entry, or the note itself
+   */
+  static toTasks(file: FileInfo | TFile, record: Record<string, unknown>, tags: string[]): UpkeepTask[] {
+    const schedules: unknown = record.schedules;
+    if (!Array.isArray(schedules)) {
+      const task = this.toTask(file, record, tags);
+      return task ? [task] : [];
+    }
+
+    const tasks: UpkeepTask[] = [];
+    schedules.forEach((entry: unknown, index: number) => {
+      const schedule = this.toRecord(entry);
+      const task = schedule ? this.toTask(file, schedule, tags) : null;
+      if (schedule && task) {
+        // The note's type marker still applies to each schedule
+        tasks.push({
+          ...task,
+          type: this.toText(record.type),
+          schedule_index: index,
+          schedule_name: this.scheduleName(schedule, index)
+        });
+      }
+    });
+    return tasks;
+  }
+
+  /**
+   * The frontmatter record holding a task's fields: its `schedules:` entry, or the frontmatter itself
+   * Returns null when the entry no longer exists
+   */
+  static getScheduleRecord<T extends Record<string, unknown>>(frontmatter: T, scheduleIndex?: number): T | null {
+    if (scheduleIndex === undefined) {
+      return frontmatter;
+    }
+    const schedules: unknown = frontmatter.schedules;
+    const entry: unknown = Array.isArray(schedules) ? schedules[scheduleIndex] : null;
+    return entry && typeof entry === 'object' ? entry as T : null;
+  }
+
+  /**
+   * Unique key of a task: the note path, plus the entry index for `schedules:` entries
+   */
+  static taskKey(task: Pick<UpkeepTask, 'file' | 'schedule_index'>): string {
+    return task.schedule_index === undefined ? task.file.path : `${task.file.path}#${task.schedule_index}`;
+  }
+
+  /**
+   * Build a task from a frontmatter-like record using the configured field names
+   * Returns null when the schedule fields are missing and there is no usable rrule, window or meter_interval
+   */
+  static toTask(file: FileInfo | TFile, record: Record<string, unknown>, tags: string[]): UpkeepTask | null {
+    const { lastDoneField, intervalField, intervalUnitField } = this.fields;
+    const isText = (value: unknown): value is string => typeof value === 'string';
+    const isTextOrNumber = (value: unknown): value is string | number => typeof value === 'string' || typeof value === 'number';
+
+    // Each field is narrowed to the type the task expects; anything else counts as absent
+    const task: UpkeepTask = {
+      file,
+      last_done: this.toDateText(record[lastDoneField]),
+      interval: this.toNumber(record[intervalField]) || 0,
+      interval_unit: this.toText(record[intervalUnitField]) || '',
+      interval_min: this.toNumber(record.interval_min),
+      interval_max: this.toNumber(record.interval_max),
+      type: this.toText(record.type),
+      tags,
+      schedule: this.toText(record.schedule),
+      anchor_date: this.toDateText(record.anchor_date),
+      on: this.toOneOrList(record.on, isTextOrNumber),
+      rrule: this.toText(record.rrule),
+      warn_days: this.toNumber(record.warn_days),
+      grace: isTextOrNumber(record.grace) ? record.grace : undefined,
+      snoozed_until: this.toDateText(record.snoozed_until),
+      last_skipped: this.toDateText(record.last_skipped),
+      paused: typeof record.paused === 'boolean' ? record.paused : this.toDateText(record.paused),
+      paused_until: this.toDateText(record.paused_until),
+      active_months: this.toOneOrList(record.active_months, isTextOrNumber),
+      active_between: this.toOneOrList(record.active_between, isText),
+      start_date: this.toDateText(record.start_date),
+      end_date: this.toDateText(record.end_date),
+      max_occurrences: this.toNumber(record.max_occurrences),
+      completed_occurrences: this.toNumber(record.completed_occurrences),
+      meter: record.meter,
+      meter_field: this.toText(record.meter_field),
+      meter_interval: this.toNumber(record.meter_interval),
+      meter_unit: this.toText(record.meter_unit),
+      last_meter: this.toNumber(record.last_meter),
+      working_days: typeof record.working_days === 'boolean' ? record.working_days : this.toText(record.working_days),
+      record: this.toOneOrList(record.record, isText)
+    };
+
+    // A recurrence rule carries its own frequency; derive the interval fields when they are left out
+    const rrule = RRule.parse(task.rrule);
+    if (rrule && (!task.interval || !task.interval_unit)) {
+      task.interval = rrule.interval;
+      task.interval_unit = RRule.intervalUnit(rrule);
+    }
+
+    // A flexible window is due by its upper bound, which takes the place of the interval
+    const window = FlexibleWindow.parse(task);
+    if (window) {
+      task.interval = window.max;
+    }
+
+    // Usage-based tasks may leave out the time interval altogether
+    if ((!task.interval || !task.interval_unit) && !Meter.isMeterTask(task)) {
+      return null;
+    }
+
+    return task;
+  }
+
+  /**
+   * Measurement fields a task asks for on completion, from a list or a comma-separated string
+   */
+  static recordFields(task: Pick<UpkeepTask, 'record'>): string[] {
+    const fields = Array.isArray(task.record) ? task.record : String(task.record ?? '').split(',');
+    return fields.map(field => String(field).trim()).filter(field => field.length > 0);
+  }
+
+  /**
+   * Display name of a `schedules:` entry: its `name`, else its position
+   */
+  static scheduleName(entry: Record<string, unknown>, index: number): string {
+    const name = this.toText(entry.name)?.trim();
+    return name ? name : `#${index + 1}`;
+  }
+
+  /**
+   * A frontmatter value as an object of fields, e.g. an entry of a `schedules:` list
+   */
+  static toRecord(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  }
+
+  /**
+   * Text of a frontmatter value; numbers and booleans are written out, anything else is absent
+   */
+  static toText(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+  }
+
+  /**
+   * Number of a frontmatter value, also when written as text like "2"; anything else is absent
+   */
+  static toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') return isNaN(value) ? undefined : value;
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const number = Number(value);
+    return isNaN(number) ? undefined : number;
+  }
+
+  /**
+   * A date value as text: dates Dataview or YAML turned into objects become YYYY-MM-DD,
+   * or YYYY-MM-DDTHH:mm when they carry a time of day
+   */
+  static toDateText(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+
+    const isDateTime = !!value && typeof value === 'object' && typeof (value as { toFormat?: unknown }).toFormat === 'function';
+    if (!(value instanceof Date) && !isDateTime) return undefined;
+
+    const date = DateUtils.parseLocalDateTime(value as Date | { toFormat(format: string): string });
+    if (isNaN(date.getTime())) return undefined;
+    return date.getHours() === 0 && date.getMinutes() === 0 ? DateUtils.toDateString(date) : DateUtils.toDateTimeString(date);
+  }
+
+  /**
+   * A value that may be given once or as a list, keeping only items of the wanted type
+   */
+  private static toOneOrList<T>(value: unknown, isItem: (item: unknown) => item is T): T | T[] | undefined {
+    if (Array.isArray(value)) return value.filter(isItem);
+    return isItem(value) ? value : undefined;
+  }
+
+  private static normalizeTag(tag: string | undefined): string {
+    return (tag || '').trim().replace(/^#/, '').toLowerCase();
+  }
+}
@@ -7,11 +7,27 @@ import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 // Task status and progress bar CSS classes
 export type TaskStatusClass = 
   | 'recurring-upkeep-overdue'
-  | 'recurring-upkeep-up-to-date';
+  | 'recurring-upkeep-grace'
+  | 'recurring-upkeep-due-soon'
+  | 'recurring-upkeep-in-window'
+  | 'recurring-upkeep-up-to-date'
+  | 'recurring-upkeep-snoozed'
+  | 'recurring-upkeep-paused'
+  | 'recurring-upkeep-dormant'
+  | 'recurring-upkeep-not-started'
+  | 'recurring-upkeep-finished';
 
 export type TaskProgressClass = 
   | 'recurring-upkeep-progress-overdue'
-  | 'recurring-upkeep-progress-up-to-date';
+  | 'recurring-upkeep-progress-grace'
+  | 'recurring-upkeep-progress-due-soon'
+  | 'recurring-upkeep-progress-in-window'
+  | 'recurring-upkeep-progress-up-to-date'
+  | 'recurring-upkeep-progress-snoozed'
+  | 'recurring-upkeep-progress-paused'
+  | 'recurring-upkeep-progress-dormant'
+  | 'recurring-upkeep-progress-not-started'
+  | 'recurring-upkeep-progress-finished';
 
 /**
  * Centralized function to determine task status styling
@@ -67,6 +83,30 @@ export class TaskStyling {
       case 'recurring-upkeep-overdue':
         result = 'recurring-upkeep-progress-overdue';
         break;
+      case 'recurring-upkeep-grace':
+        result = 'recurring-upkeep-progress-grace';
+        break;
+      case 'recurring-upkeep-due-soon':
+        result = 'recurring-upkeep-progress-due-soon';
+        break;
+      case 'recurring-upkeep-in-window':
+        result = 'recurring-upkeep-progress-in-window';
+        break;
+      case 'recurring-upkeep-snoozed':
+        result = 'recurring-upkeep-progress-snoozed';
+        break;
+      case 'recurring-upkeep-paused':
+        result = 'recurring-upkeep-progress-paused';
+        break;
+      case 'recurring-upkeep-dormant':
+        result = 'recurring-upkeep-progress-dormant';
+        break;
+      case 'recurring-upkeep-not-started':
+        result = 'recurring-upkeep-progress-not-started';
+        break;
+      case 'recurring-upkeep-finished':
+        result = 'recurring-upkeep-progress-finished';
+        break;
       case 'recurring-upkeep-up-to-date':
         result = 'recurring-upkeep-progress-up-to-date';
         break;
@@ -108,16 +148,62 @@ export class TaskStyling {
     // If task is eligible for completion, it's overdue (red)
     // Otherwise, it's up to date (green)
     
-    // Rule 1: Never completed tasks are overdue
-    if (!task.last_done) {
+    // Rule 0: Finished, not yet started, paused, dormant and snoozed tasks stay quiet, whatever their schedule says
+    if (task.state === 'finished') {
+      return {
+        statusClass: 'recurring-upkeep-finished',
+        tooltip: "Task has finished"
+      };
+    }
+
+    if (task.state === 'not-started') {
+      return {
+        statusClass: 'recurring-upkeep-not-started',
+        tooltip: `Starts ${task.start_date}`
+      };
+    }
+
+    if (task.state === 'paused') {
+      return {
+        statusClass: 'recurring-upkeep-paused',
+        tooltip: task.calculatedNextDue ? `Paused until ${task.calculatedNextDue}` : "Paused"
+      };
+    }
+
+    if (task.state === 'dormant') {
+      return {
+        statusClass: 'recurring-upkeep-dormant',
+        tooltip: `Out of season until ${task.calculatedNextDue}`
+      };
+    }
+
+    if (task.state === 'snoozed') {
+      return {
+        statusClass: 'recurring-upkeep-snoozed',
+        tooltip: `Snoozed until ${task.calculatedNextDue}`
+      };
+    }
+
+    // Rule 1: Never completed tasks are overdue (unless a fixed schedule gives them a first due date)
+    if (!task.last_done && !task.calculatedNextDue) {
       return {
         statusClass: 'recurring-upkeep-overdue',
         tooltip: "Task has never been completed"
       };
     }
 
+    // Rule 1b: Usage-based tasks whose meter decides the status
+    if (task.dueByMeter) {
+      return {
+        statusClass: task.state === 'overdue' ? 'recurring-upkeep-overdue'
+          : task.state === 'due-soon' ? 'recurring-upkeep-due-soon'
+          : 'recurring-upkeep-up-to-date',
+        tooltip: task.status
+      };
+    }
+
     // Rule 2: Completed today (always up to date)
-    const today = currentTime || new Date().toISOString().split('T')[0];
+    const today = currentTime || DateUtils.today();
     if (task.last_done === today) {
       return {
         statusClass: 'recurring-upkeep-up-to-date',
@@ -130,6 +216,15 @@ export class TaskStyling {
     // Positive days remaining = up to date (green)
     const daysRemaining = task.daysRemaining;
 
+    // Late but still inside the task's grace window
+    if (task.state === 'grace') {
+      const daysLate = Math.abs(daysRemaining);
+      return {
+        statusClass: 'recurring-upkeep-grace',
+        tooltip: `Late by ${daysLate} ${daysLate === 1 ? 'day' : 'days'}, within a ${task.graceDays}-day grace period`
+      };
+    }
+
     // If task is overdue (daysRemaining <= 0), show as overdue
     if (daysRemaining <= 0) {
       if (daysRemaining < 0) {
@@ -146,7 +241,23 @@ export class TaskStyling {
       }
     }
 
-    // Rule 4: Up to date (more than early completion window)
+    // Rule 4: Due soon (within the warning window before the due date)
+    if (task.state === 'due-soon') {
+      return {
+        statusClass: 'recurring-upkeep-due-soon',
+        tooltip: `Due soon: in ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`
+      };
+    }
+
+    // Rule 4b: Inside a flexible window, before its upper bound
+    if (task.state === 'in-window') {
+      return {
+        statusClass: 'recurring-upkeep-in-window',
+        tooltip: `In window, due within ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`
+      };
+    }
+
+    // Rule 5: Up to date (more than early completion window)
     return {
       statusClass: 'recurring-upkeep-up-to-date',
       tooltip: `Due in ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`
@@ -162,8 +273,16 @@ export class TaskStyling {
     
     switch (statusClass) {
       case 'recurring-upkeep-overdue': return 1; // Higher priority (red)
-      case 'recurring-upkeep-up-to-date': return 2; // Lower priority (green)
-      default: return 3;
+      case 'recurring-upkeep-grace': return 2; // Late but tolerated (orange)
+      case 'recurring-upkeep-due-soon': return 3; // Warning (amber)
+      case 'recurring-upkeep-in-window': return 4; // Flexible window open (yellow)
+      case 'recurring-upkeep-up-to-date': return 5; // Lower priority (green)
+      case 'recurring-upkeep-snoozed': return 6; // Deliberately postponed (grey)
+      case 'recurring-upkeep-paused': return 7; // Out of rotation (blue grey)
+      case 'recurring-upkeep-dormant': return 8; // Out of season (blue grey)
+      case 'recurring-upkeep-not-started': return 9; // Lifetime not begun (indigo)
+      case 'recurring-upkeep-finished': return 10; // Retired (grey)
+      default: return 11;
     }
   }
 
@@ -177,6 +296,7 @@ export class TaskStyling {
   static readonly UI_SYMBOLS = {
     FREQUENCY: '🔁',
     DATE: '📅',
+    METER: '📏',
     SEPARATOR: ' • '
   } as const;
 
@@ -189,13 +309,33 @@ export class TaskStyling {
    */
   static getStatusText(task: ProcessedTask): string {
     try {
-      if (!task.last_done) {
+      if (task.state === 'finished') {
+        return I18nUtils.t.status.finished;
+      } else if (task.state === 'not-started') {
+        return I18nUtils.t.status.notStarted(I18nUtils.formatShortDate(String(task.start_date)));
+      } else if (task.state === 'dormant') {
+        return I18nUtils.t.status.dormant(I18nUtils.formatShortDate(task.calculatedNextDue || ''));
+      } else if (task.state === 'paused') {
+        return I18nUtils.t.status.paused(task.calculatedNextDue ? I18nUtils.formatShortDate(task.calculatedNextDue) : undefined);
+      } else if (task.state === 'snoozed') {
+        return I18nUtils.t.status.snoozed(I18nUtils.formatShortDate(task.calculatedNextDue || ''));
+      } else if (task.dueByMeter && typeof task.meterRemaining === 'number') {
+        return task.state === 'up-to-date' ? I18nUtils.t.status.upToDate : I18nUtils.formatMeterStatus(task.meterRemaining, task.meter_unit);
+      } else if (!task.last_done && !task.calculatedNextDue) {
         return I18nUtils.t.status.neverCompleted;
+      } else if (task.state === 'grace') {
+        return I18nUtils.formatInGrace(Math.abs(task.daysRemaining), task.graceDays);
       } else if (task.daysRemaining < 0) {
         const days = Math.abs(task.daysRemaining);
         return I18nUtils.formatOverdue(days);
       } else if (task.daysRemaining === 0) {
         return I18nUtils.t.status.dueToday;
+      } else if (task.state === 'due-soon') {
+        return I18nUtils.formatDueSoon(task.daysRemaining);
+      } else if (task.state === 'in-window') {
+        return I18nUtils.t.status.inWindow(I18nUtils.formatShortDate(task.calculatedNextDue || ''));
+      } else if (task.windowOpens) {
+        return I18nUtils.t.status.notYetDue(I18nUtils.formatShortDate(task.windowOpens));
       } else {
         return I18nUtils.t.status.upToDate;
       }
@@ -217,18 +357,23 @@ export class TaskStyling {
    * @returns Secondary status text with task details
    */
   static getSecondaryStatusText(task: ProcessedTask, currentTime?: string): string {
-    const now = currentTime || new Date().toISOString().split('T')[0];
+    const now = currentTime || DateUtils.today();
     const frequencyDesc = RecurringUpkeepUtils.getFrequencyDescription(
       task.interval,
-      task.interval_unit
+      task.interval_unit,
+      task
     );
 
     try {
-      if (!task.last_done) {
+      if (task.state === 'paused' || task.state === 'dormant' || task.state === 'finished' || (task.dueByMeter && task.last_done)) {
+        return task.last_done
+          ? I18nUtils.t.ui.statusText.taskLastDone(frequencyDesc, I18nUtils.formatRelativeDate(task.last_done, now))
+          : I18nUtils.t.ui.statusText.thisIsTask(frequencyDesc);
+      } else if (!task.last_done && !task.calculatedNextDue) {
         return I18nUtils.t.ui.statusText.thisIsTask(frequencyDesc);
-      } else if (DateUtils.isToday(task.last_done, now)) {
+      } else if (task.last_done && DateUtils.isToday(task.last_done, now)) {
         if (task.calculatedNextDue) {
-          const relativeDate = I18nUtils.formatRelativeDate(task.calculatedNextDue, now);
+          const relativeDate = I18nUtils.formatRelativeDate(task.calculatedNextDue, now, RecurringUpkeepUtils.usesWorkingDays(task));
           return I18nUtils.t.ui.statusText.dueWithFrequency(relativeDate, frequencyDesc);
         } else {
           let daysUntilDue = 0;
@@ -244,14 +389,14 @@ export class TaskStyling {
           }
           return I18nUtils.t.ui.statusText.dueInDays(daysUntilDue, frequencyDesc);
         }
-      } else if (task.daysRemaining < 0) {
+      } else if (task.last_done && task.daysRemaining < 0) {
         const relativeDate = I18nUtils.formatRelativeDate(task.last_done, now);
         return I18nUtils.t.ui.statusText.taskLastDone(frequencyDesc, relativeDate);
-      } else if (task.daysRemaining === 0) {
+      } else if (task.last_done && task.daysRemaining === 0) {
         const relativeDate = I18nUtils.formatRelativeDate(task.last_done, now);
         return I18nUtils.t.ui.statusText.taskLastDone(frequencyDesc, relativeDate);
       } else {
-        const relativeDate = I18nUtils.formatRelativeDate(task.calculatedNextDue || "", now);
+        const relativeDate = I18nUtils.formatRelativeDate(task.calculatedNextDue || "", now, RecurringUpkeepUtils.usesWorkingDays(task));
         return I18nUtils.t.ui.statusText.dueWithFrequency(relativeDate, frequencyDesc);
       }
     } catch (error) {
@@ -270,7 +415,7 @@ export class TaskStyling {
    */
   static getFrequencyDisplayText(task: ProcessedTask): string {
     try {
-      const frequency = I18nUtils.formatFrequency(task.interval, task.interval_unit);
+      const frequency = I18nUtils.formatFrequency(task.interval, task.interval_unit, task);
       return `${this.UI_SYMBOLS.FREQUENCY} ${frequency}`;
     } catch (error) {
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
@@ -288,14 +433,20 @@ export class TaskStyling {
    * @returns Due date text with emoji (e.g., "📅 Due in 5 days")
    */
   static getDueDateDisplayText(task: ProcessedTask, currentTime?: string): string {
-    const now = currentTime || new Date().toISOString().split('T')[0];
+    const now = currentTime || DateUtils.today();
 
     try {
-      if (!task.last_done) {
+      if (task.state === 'paused' || task.state === 'dormant') {
+        return task.calculatedNextDue
+          ? `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.resumes} ${I18nUtils.formatRelativeDate(task.calculatedNextDue, now)}`
+          : `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.notScheduled}`;
+      } else if (task.dueByMeter && typeof task.meterRemaining === 'number') {
+        return `${this.UI_SYMBOLS.METER} ${I18nUtils.formatMeterLeft(task.meterRemaining, task.meter_unit)}`;
+      } else if (!task.last_done && !task.calculatedNextDue) {
         return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.never}`;
       } else if (task.daysRemaining < 0) {
         if (task.calculatedNextDue) {
-          const wasDueText = I18nUtils.formatRelativeDate(task.calculatedNextDue, now);
+          const wasDueText = I18nUtils.formatRelativeDate(task.calculatedNextDue, now, RecurringUpkeepUtils.usesWorkingDays(task));
           return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.wasDue} ${wasDueText}`;
         } else {
           return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.filters.status.overdue}`;
@@ -303,7 +454,7 @@ export class TaskStyling {
       } else if (task.daysRemaining === 0) {
         return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.time.relative.today}`;
       } else if (task.calculatedNextDue) {
-        const nextDueText = I18nUtils.formatRelativeDate(task.calculatedNextDue, now);
+        const nextDueText = I18nUtils.formatRelativeDate(task.calculatedNextDue, now, RecurringUpkeepUtils.usesWorkingDays(task));
         return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.nextDue} ${nextDueText}`;
       } else {
         return `${this.UI_SYMBOLS.DATE} ${I18nUtils.t.ui.labels.notScheduled}`;
@@ -0,0 +1,150 @@
+import { App, TFile } from 'obsidian';
+import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+
+// Saturday and Sunday
+const WEEKEND_DAYS = [0, 6];
+
+// Longest run of days off we step over before giving up (a broken holiday list)
+const MAX_DAYS_OFF = 366;
+
+/**
+ * Working-day calendar: weekends and holidays are days off
+ *
+ * Holidays come from a vault file named in the settings, either a note listing dates
+ * (YYYY-MM-DD anywhere in the text) or an iCalendar (.ics) export. Yearly recurring
+ * ICS events count on the same day every year. Nothing is fetched from the network.
+ */
+export class WorkCalendar {
+  // YYYY-MM-DD
+  private static holidays = new Set<string>();
+  // MM-DD, from yearly recurring ICS events
+  private static yearlyHolidays = new Set<string>();
+
+  /**
+   * Read the holidays file; a missing or empty path clears the holidays
+   * Returns the number of holidays found
+   */
+  static async load(app: App, path: string): Promise<number> {
+    const file = path ? app.vault.getAbstractFileByPath(path.trim()) : null;
+    if (!(file instanceof TFile)) {
+      if (path && RECURRING_UPKEEP_LOGGING_ENABLED) {
+        console.warn('[Recurring Upkeep] Holidays file not found', { path });
+      }
+      this.setHolidays([], []);
+      return 0;
+    }
+
+    const { dates, yearly } = this.parse(await app.vault.cachedRead(file));
+    this.setHolidays(dates, yearly);
+
+    if (RECURRING_UPKEEP_LOGGING_ENABLED) {
+      console.info('[Recurring Upkeep] Holidays loaded', { path, dates: dates.length, yearly: yearly.length });
+    }
+
+    return dates.length + yearly.length;
+  }
+
+  /**
+   * Replace the holidays (YYYY-MM-DD dates and MM-DD days that repeat every year)
+   */
+  static setHolidays(dates: string[], yearly: string[] = []): void {
+    this.holidays = new Set(dates);
+    this.yearlyHolidays = new Set(yearly);
+  }
+
+  /**
+   * Holidays in a note or an ICS file
+   */
+  static parse(content: string): { dates: string[]; yearly: string[] } {
+    if (!/BEGIN:VCALENDAR/i.test(content)) {
+      return { dates: content.match(/\b\d{4}-\d{2}-\d{2}\b/g) || [], yearly: [] };
+    }
+
+    const dates: string[] = [];
+    const yearly: string[] = [];
+
+    // Continuation lines in ICS files start with a space
+    const unfolded = content.replace(/\r?\n[ \t]/g, '');
+    for (const event of unfolded.split(/BEGIN:VEVENT/i).slice(1)) {
+      const start = event.match(/^DTSTART[^:\r\n]*:(\d{4})(\d{2})(\d{2})/im);
+      if (!start) {
+        continue;
+      }
+
+      const [, year, month, day] = start;
+      if (/^RRULE:.*FREQ=YEARLY/im.test(event)) {
+        yearly.push(`${month}-${day}`);
+      } else {
+        dates.push(`${year}-${month}-${day}`);
+      }
+    }
+
+    return { dates, yearly };
+  }
+
+  static isWorkingDay(date: Date): boolean {
+    if (WEEKEND_DAYS.includes(date.getDay())) {
+      return false;
+    }
+
+    const key = this.dateKey(date);
+    return !this.holidays.has(key) && !this.yearlyHolidays.has(key.slice(5));
+  }
+
+  /**
+   * The date itself when it is a working day, else the next working day after it
+   */
+  static nextWorkingDay(date: Date): Date {
+    const result = new Date(date);
+    for (let i = 0; i < MAX_DAYS_OFF && !this.isWorkingDay(result); i++) {
+      result.setDate(result.getDate() + 1);
+    }
+    return result;
+  }
+
+  /**
+   * Move a date by a number of working days (negative amounts go back)
+   */
+  static addWorkingDays(date: Date, amount: number): Date {
+    const result = new Date(date);
+    const step = amount < 0 ? -1 : 1;
+
+    for (let left = Math.abs(amount), i = 0; left > 0 && i < Math.abs(amount) + MAX_DAYS_OFF; i++) {
+      result.setDate(result.getDate() + step);
+      if (this.isWorkingDay(result)) {
+        left--;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Working days from one date to another: those after `from` up to and including `to`,
+   * negative when `to` lies before `from`. A passed date is at least one day back.
+   */
+  static countWorkingDays(from: Date, to: Date): number {
+    const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+    const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+    if (start.getTime() === end.getTime()) {
+      return 0;
+    }
+
+    const [earlier, later] = start < end ? [start, end] : [end, start];
+    let count = 0;
+    for (const day = new Date(earlier); day < later;) {
+      day.setDate(day.getDate() + 1);
+      if (this.isWorkingDay(day)) {
+        count++;
+      }
+    }
+
+    return start < end ? count : -Math.max(1, count);
+  }
+
+  private static dateKey(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
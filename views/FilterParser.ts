@@ -1,7 +1,8 @@
 import { FilterQuery, ProcessedTask } from '../types';
+import { DateUtils } from '../utils/DateUtils';
 
 // Type for valid status values
-type ValidStatus = 'all' | 'overdue' | 'up-to-date';
+type ValidStatus = 'all' | 'overdue' | 'grace' | 'due-soon' | 'in-window' | 'up-to-date' | 'snoozed' | 'paused' | 'dormant' | 'not-started' | 'finished';
 
 // Type for valid sort values  
 type ValidSort = 'due-date' | 'status' | 'name';
@@ -89,7 +90,7 @@ export class FilterParser {
   }
 
   private static isValidStatus(value: string): value is ValidStatus {
-    return ['all', 'overdue', 'up-to-date'].includes(value);
+    return ['all', 'overdue', 'grace', 'due-soon', 'in-window', 'up-to-date', 'snoozed', 'paused', 'dormant', 'not-started', 'finished'].includes(value);
   }
 
   private static isValidSort(value: string): value is ValidSort {
@@ -109,7 +110,7 @@ export class FilterParser {
   ): void {
     // Handle each property type-safely
     if (key === 'status') {
-      this.addStatusToFilter(filter, value as 'all' | 'overdue' | 'up-to-date');
+      this.addStatusToFilter(filter, value as ValidStatus);
     } else if (key === 'tag') {
       this.addTagToFilter(filter, value as string);
     } else if (key === 'interval') {
@@ -117,7 +118,7 @@ export class FilterParser {
     }
   }
 
-  private static addStatusToFilter(filter: FilterQuery, value: 'all' | 'overdue' | 'up-to-date'): void {
+  private static addStatusToFilter(filter: FilterQuery, value: ValidStatus): void {
     if (filter.status === undefined) {
       filter.status = value;
       return;
@@ -171,6 +172,12 @@ export class FilterParser {
     }
   }
 
+  // Meter-overdue tasks keep zero days remaining, so the state decides for them
+  private static isOverdue(task: ProcessedTask): boolean {
+    if (task.dueByMeter && task.state === 'overdue') return true;
+    return task.daysRemaining < 0 && task.state !== 'grace';
+  }
+
   static apply(tasks: ProcessedTask[], filter: FilterQuery): ProcessedTask[] {
     let filteredTasks = [...tasks];
 
@@ -183,9 +190,25 @@ export class FilterParser {
           return statusValues.some(status => {
             switch (status) {
               case 'overdue':
-                return task.daysRemaining < 0;
+                return this.isOverdue(task);
+              case 'grace':
+                return task.state === 'grace';
+              case 'due-soon':
+                return task.state === 'due-soon';
+              case 'in-window':
+                return task.state === 'in-window';
               case 'up-to-date':
-                return task.daysRemaining >= 0;
+                return !this.isOverdue(task) && (task.state === 'up-to-date' || task.state === 'overdue');
+              case 'snoozed':
+                return task.state === 'snoozed';
+              case 'paused':
+                return task.state === 'paused';
+              case 'dormant':
+                return task.state === 'dormant';
+              case 'not-started':
+                return task.state === 'not-started';
+              case 'finished':
+                return task.state === 'finished';
               default:
                 return false;
             }
@@ -227,30 +250,51 @@ export class FilterParser {
           filteredTasks.sort((a, b) => {
             const statusOrder: Record<string, number> = { 
               'overdue': 0, 
-              'up-to-date': 1 
+              'grace': 1,
+              'due-soon': 2,
+              'in-window': 3,
+              'up-to-date': 4,
+              'snoozed': 5,
+              'paused': 6,
+              'dormant': 7,
+              'not-started': 8,
+              'finished': 9
             };
             
             // Determine status category directly from task properties instead of parsing text
             const getStatusCategory = (task: ProcessedTask): string => {
-              if (task.daysRemaining < 0) return 'overdue';
+              if (task.state === 'paused') return 'paused';
+              if (task.state === 'dormant') return 'dormant';
+              if (task.state === 'not-started') return 'not-started';
+              if (task.state === 'finished') return 'finished';
+              if (task.state === 'grace') return 'grace';
+              if (this.isOverdue(task)) return 'overdue';
+              if (task.state === 'due-soon') return 'due-soon';
+              if (task.state === 'in-window') return 'in-window';
+              if (task.state === 'snoozed') return 'snoozed';
               return 'up-to-date';
             };
             
-            const aOrder = statusOrder[getStatusCategory(a)] ?? 2;
-            const bOrder = statusOrder[getStatusCategory(b)] ?? 2;
+            const aOrder = statusOrder[getStatusCategory(a)] ?? 10;
+            const bOrder = statusOrder[getStatusCategory(b)] ?? 10;
             return aOrder - bOrder;
           });
           break;
         case 'due-date':
         default:
           filteredTasks.sort((a, b) => {
+            // Paused and finished tasks are not due at all, so they go last
+            const aInactive = a.state === 'paused' || a.state === 'finished' ? 1 : 0;
+            const bInactive = b.state === 'paused' || b.state === 'finished' ? 1 : 0;
+            if (aInactive !== bInactive) return aInactive - bInactive;
+
             if (!a.calculatedNextDue && b.calculatedNextDue) return -1;
             if (a.calculatedNextDue && !b.calculatedNextDue) return 1;
             if (!a.calculatedNextDue && !b.calculatedNextDue) return 0;
 
             // Safe null check before creating Date objects - use non-null assertion since we checked above
-            const dateA = new Date(a.calculatedNextDue!);
-            const dateB = new Date(b.calculatedNextDue!);
+            const dateA = DateUtils.parseLocalDateTime(a.calculatedNextDue!);
+            const dateB = DateUtils.parseLocalDateTime(b.calculatedNextDue!);
 
             return dateA.getTime() - dateB.getTime();
           });
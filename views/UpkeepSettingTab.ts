@@ -0,0 +1,243 @@
+import { App, PluginSettingTab, Setting, AbstractTextComponent, debounce } from 'obsidian';
+import { TaskSchemaSettings, LanguageSetting, CompleteButtonPolicy, HistoryStorage, DEFAULT_SETTINGS } from '../settings';
+import { I18nUtils } from '../i18n/I18nUtils';
+import { DateUtils } from '../utils/DateUtils';
+import RecurringUpkeepSchedulerPlugin from '../main';
+
+export class UpkeepSettingTab extends PluginSettingTab {
+  plugin: RecurringUpkeepSchedulerPlugin;
+
+  constructor(app: App, plugin: RecurringUpkeepSchedulerPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  // Text fields save once editing is done rather than on every keystroke
+  private requestSave = debounce(() => {
+    void this.plugin.saveSettings();
+  }, 300, true);
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    this.renderGeneralSettings(containerEl);
+    this.renderHistorySettings(containerEl);
+    this.renderWorkingDaySettings(containerEl);
+    this.renderSchemaSettings(containerEl);
+  }
+
+  private renderGeneralSettings(containerEl: HTMLElement): void {
+    const t = I18nUtils.t.settings.general;
+
+    new Setting(containerEl).setName(t.heading).setHeading();
+
+    new Setting(containerEl)
+      .setName(t.language.name)
+      .setDesc(t.language.desc)
+      .addDropdown(dropdown => dropdown
+        .addOption('auto', t.language.auto)
+        .addOption('en', 'English')
+        .addOption('de', 'Deutsch')
+        .setValue(this.plugin.settings.language)
+        .onChange(async (value) => {
+          this.plugin.settings.language = value as LanguageSetting;
+          await this.plugin.saveSettings();
+          // Re-render the tab itself in the new language
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.defaultFilter.name)
+      .setDesc(t.defaultFilter.desc)
+      .addTextArea(text => text
+        .setPlaceholder('status:overdue')
+        .setValue(this.plugin.settings.defaultFilter)
+        .then(component => this.applyOnBlur(component, value => {
+          this.plugin.settings.defaultFilter = value;
+        })));
+
+    new Setting(containerEl)
+      .setName(t.completeButton.name)
+      .setDesc(t.completeButton.desc)
+      .addDropdown(dropdown => dropdown
+        .addOption('when-due', t.completeButton.whenDue)
+        .addOption('always', t.completeButton.always)
+        .addOption('never', t.completeButton.never)
+        .setValue(this.plugin.settings.completeButton)
+        .onChange(async (value) => {
+          this.plugin.settings.completeButton = value as CompleteButtonPolicy;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.dueSoonDays.name)
+      .setDesc(t.dueSoonDays.desc)
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS.dueSoonDays))
+        .setValue(String(this.plugin.settings.dueSoonDays))
+        .then(component => this.applyOnBlur(component, value => {
+          const days = parseInt(value, 10);
+          this.plugin.settings.dueSoonDays = !isNaN(days) && days >= 0 ? days : DEFAULT_SETTINGS.dueSoonDays;
+        })));
+
+    new Setting(containerEl)
+      .setName(t.checkTasksOnStartup.name)
+      .setDesc(t.checkTasksOnStartup.desc)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.checkTasksOnStartup)
+        .onChange(async (value) => {
+          this.plugin.settings.checkTasksOnStartup = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const timeZoneSetting = new Setting(containerEl)
+      .setName(t.timeZone.name)
+      .setDesc(t.timeZone.desc);
+    const timeZoneError = timeZoneSetting.descEl.createDiv({ cls: 'mod-warning' });
+    timeZoneSetting.addText(text => text
+      .setPlaceholder(Intl.DateTimeFormat().resolvedOptions().timeZone)
+      .setValue(this.plugin.settings.timeZone)
+      .then(component => this.applyOnBlur(component, value => {
+        const timeZone = value.trim();
+        // Unknown names would silently fall back to the device zone, so keep the previous one instead
+        if (timeZone && !DateUtils.isValidTimeZone(timeZone)) {
+          timeZoneError.setText(t.timeZone.invalid(timeZone));
+          component.setValue(this.plugin.settings.timeZone);
+          return;
+        }
+        timeZoneError.setText('');
+        this.plugin.settings.timeZone = timeZone;
+      })));
+  }
+
+  private renderHistorySettings(containerEl: HTMLElement): void {
+    const t = I18nUtils.t.settings.history;
+
+    new Setting(containerEl).setName(t.heading).setHeading();
+
+    new Setting(containerEl)
+      .setName(t.recordHistory.name)
+      .setDesc(t.recordHistory.desc)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.recordHistory)
+        .onChange(async (value) => {
+          this.plugin.settings.recordHistory = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.recordUser.name)
+      .setDesc(t.recordUser.desc)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.recordUser)
+        .onChange(async (value) => {
+          this.plugin.settings.recordUser = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.historyStorage.name)
+      .setDesc(t.historyStorage.desc)
+      .addDropdown(dropdown => dropdown
+        .addOption('table', t.historyStorage.table)
+        .addOption('frontmatter', t.historyStorage.frontmatter)
+        .addOption('sidecar', t.historyStorage.sidecar)
+        .addOption('log', t.historyStorage.log)
+        .setValue(this.plugin.settings.historyStorage)
+        .onChange(async (value) => {
+          this.plugin.settings.historyStorage = value as HistoryStorage;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.historyLogFile.name)
+      .setDesc(t.historyLogFile.desc)
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.historyLogFile)
+        .setValue(this.plugin.settings.historyLogFile)
+        .then(component => this.applyOnBlur(component, value => {
+          this.plugin.settings.historyLogFile = value.trim() || DEFAULT_SETTINGS.historyLogFile;
+        })));
+  }
+
+  private renderWorkingDaySettings(containerEl: HTMLElement): void {
+    const t = I18nUtils.t.settings.workingDays;
+
+    new Setting(containerEl).setName(t.heading).setHeading();
+
+    new Setting(containerEl)
+      .setName(t.workingDaysOnly.name)
+      .setDesc(t.workingDaysOnly.desc)
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.workingDaysOnly)
+        .onChange(async (value) => {
+          this.plugin.settings.workingDaysOnly = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(t.holidaysFile.name)
+      .setDesc(t.holidaysFile.desc)
+      .addText(text => text
+        .setPlaceholder('Holidays.md')
+        .setValue(this.plugin.settings.holidaysFile)
+        .then(component => this.applyOnBlur(component, value => {
+          this.plugin.settings.holidaysFile = value.trim();
+        })));
+  }
+
+  private renderSchemaSettings(containerEl: HTMLElement): void {
+    const t = I18nUtils.t.settings.schema;
+
+    new Setting(containerEl).setName(t.heading).setHeading();
+    containerEl.createEl('p', {
+      text: t.description,
+      cls: 'setting-item-description'
+    });
+
+    this.addSchemaField(containerEl, 'taskTag', t.taskTag);
+    this.addSchemaField(containerEl, 'taskType', t.taskType);
+    this.addSchemaField(containerEl, 'lastDoneField', t.lastDoneField);
+    this.addSchemaField(containerEl, 'intervalField', t.intervalField);
+    this.addSchemaField(containerEl, 'intervalUnitField', t.intervalUnitField);
+  }
+
+  private addSchemaField(
+    containerEl: HTMLElement,
+    key: keyof TaskSchemaSettings,
+    labels: { name: string; desc: string }
+  ): void {
+    const defaultValue = DEFAULT_SETTINGS.schema[key];
+
+    new Setting(containerEl)
+      .setName(labels.name)
+      .setDesc(labels.desc)
+      .addText(text => text
+        .setPlaceholder(defaultValue)
+        .setValue(this.plugin.settings.schema[key])
+        .then(component => this.applyOnBlur(component, value => {
+          // Field names must not be empty; markers may be, to disable them
+          const isMarker = key === 'taskTag' || key === 'taskType';
+          this.plugin.settings.schema[key] = value.trim() || (isMarker ? '' : defaultValue);
+        })));
+  }
+
+  /**
+   * Apply a text field when it loses focus, and save
+   */
+  private applyOnBlur(component: AbstractTextComponent<HTMLInputElement | HTMLTextAreaElement>, apply: (value: string) => void): void {
+    component.inputEl.addEventListener('blur', () => {
+      apply(component.getValue());
+      this.requestSave();
+    });
+  }
+
+  hide(): void {
+    // Closing the settings while a field still has focus may not blur it first
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && this.containerEl.contains(active)) {
+      active.blur();
+    }
+  }
+}
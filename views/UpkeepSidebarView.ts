@@ -1,7 +1,6 @@
 import { ItemView, WorkspaceLeaf, TFile } from 'obsidian';
 import { ProcessedTask } from '../types';
 import { UpkeepTableView } from './UpkeepTableView';
-import { TaskProcessor } from '../utils/TaskProcessor';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 import RecurringUpkeepSchedulerPlugin from '../main';
@@ -97,10 +96,10 @@ export class UpkeepSidebarView extends ItemView {
     });
 
     try {
-      // Get tasks from the plugin
-      const tasks = await this.plugin.getUpkeepTasks();
+      // Get tasks from the shared task index
+      const sortedTasks = this.plugin.taskIndex.getProcessedTasks();
       
-      if (!tasks || tasks.length === 0) {
+      if (sortedTasks.length === 0) {
         loadingEl.remove();
         container.createEl('div', {
           text: I18nUtils.t.ui.messages.noTasks || 'No recurring tasks found.',
@@ -109,10 +108,6 @@ export class UpkeepSidebarView extends ItemView {
         return;
       }
 
-      // Process and sort tasks
-      const processedTasks = TaskProcessor.processTasks(tasks);
-      const sortedTasks = TaskProcessor.sortTasks(processedTasks);
-
       // Remove loading state
       loadingEl.remove();
 
@@ -132,9 +127,7 @@ export class UpkeepSidebarView extends ItemView {
 
       if (RECURRING_UPKEEP_LOGGING_ENABLED) {
         console.debug('[Recurring Upkeep] Sidebar content rendered', {
-          taskCount: tasks.length,
-          processedCount: processedTasks.length,
-          sortedCount: sortedTasks.length
+          taskCount: sortedTasks.length
         });
       }
 
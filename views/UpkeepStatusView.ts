@@ -1,22 +1,29 @@
 import { App, TFile, EventRef } from 'obsidian';
 import { UpkeepTask } from '../types';
 import { TaskProcessor } from '../utils/TaskProcessor';
+import { RecurringUpkeepUtils } from '../utils/RecurringUpkeepUtils';
+import { DateUtils } from '../utils/DateUtils';
 import { CompleteButton } from '../components/CompleteButton';
+import { TaskActionsMenu } from '../components/TaskActionsMenu';
 import { ProgressBar } from '../components/ProgressBar';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { TaskStyling } from '../utils/TaskStyling';
+import { TaskSchema } from '../utils/TaskSchema';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
+import RecurringUpkeepSchedulerPlugin from '../main';
 
 export class UpkeepStatusView {
   private app: App;
+  private plugin: RecurringUpkeepSchedulerPlugin;
   private now: string;
   private container: HTMLElement | null = null;
   private currentFile: TFile | null = null;
-  private eventRef: EventRef | null = null;
+  private eventRefs: EventRef[] = [];
 
-  constructor(app: App) {
+  constructor(app: App, plugin: RecurringUpkeepSchedulerPlugin) {
     this.app = app;
-    this.now = new Date().toISOString().split('T')[0];
+    this.plugin = plugin;
+    this.now = DateUtils.today();
   }
 
   async render(container: HTMLElement, file: TFile): Promise<void> {
@@ -25,15 +32,14 @@ export class UpkeepStatusView {
     container.empty();
 
     try {
-      const task = await this.getCurrentFileTask(file);
+      const tasks = await this.getCurrentFileTasks(file);
 
-      if (!task) {
+      if (tasks.length === 0) {
         this.renderNoTaskMessage(container);
         return;
       }
 
-      const processedTask = TaskProcessor.processTask(task, this.now);
-      this.renderTaskStatus(container, processedTask);
+      this.renderTasks(container, tasks);
 
     } catch (error) {
       console.error('Error in UpkeepStatusView:', error);
@@ -48,38 +54,43 @@ export class UpkeepStatusView {
     if (!this.container || !this.currentFile) return;
 
     // Clean up any existing listener
-    if (this.eventRef) {
-      this.app.metadataCache.offref(this.eventRef);
-    }
+    this.removeEventListeners();
 
-    this.eventRef = this.app.metadataCache.on('changed', async (changedFile: TFile) => {
-      // Update if the current file changed OR if any recurring task changed
-      // (other task changes might affect context/ordering)
-      if (changedFile.path === this.currentFile!.path || this.isRecurringTaskFile(changedFile)) {
-        // Add a small delay to ensure metadata cache is fully updated
-        setTimeout(async () => {
+    const taskIndex = this.plugin.taskIndex;
+    this.eventRefs = [
+      taskIndex.on('changed', async (path: string) => {
+        if (path === this.currentFile!.path) {
           await this.quickRender();
-        }, 50); // 50ms delay should be sufficient
-      }
-    });
+        }
+      }),
+      taskIndex.on('rebuilt', async () => {
+        await this.quickRender();
+      })
+    ];
+  }
+
+  private removeEventListeners(): void {
+    for (const ref of this.eventRefs) {
+      this.plugin.taskIndex.offref(ref);
+    }
+    this.eventRefs = [];
   }
 
   private async quickRender(): Promise<void> {
     if (!this.container || !this.currentFile) return;
 
     try {
-      const task = await this.getCurrentFileTask(this.currentFile);
+      const tasks = await this.getCurrentFileTasks(this.currentFile);
 
       // Clear and re-render (status widgets are simple enough for full re-render)
       this.container.empty();
 
-      if (!task) {
+      if (tasks.length === 0) {
         this.renderNoTaskMessage(this.container);
         return;
       }
 
-      const processedTask = TaskProcessor.processTask(task, this.now);
-      this.renderTaskStatus(this.container, processedTask);
+      this.renderTasks(this.container, tasks);
 
     } catch (error) {
       console.error('Error refreshing status widget:', error);
@@ -88,45 +99,21 @@ export class UpkeepStatusView {
     }
   }
 
-  private isRecurringTaskFile(file: TFile): boolean {
-    if (file.extension !== 'md') return false;
-    
-    const cache = this.app.metadataCache.getFileCache(file);
-    const frontmatter = cache?.frontmatter;
-    
-    return frontmatter?.tags?.includes("recurring-task") ||
-           frontmatter?.type === "recurring-task";
-  }
-
-  private async getCurrentFileTask(file: TFile): Promise<UpkeepTask | null> {
+  private async getCurrentFileTasks(file: TFile): Promise<UpkeepTask[]> {
     try {
-      const cache = this.app.metadataCache.getFileCache(file);
-      const frontmatter = cache?.frontmatter;
-
-      if (!frontmatter) {
-        return null;
-      }
-
-      // Check if this file is configured as a recurring task
-      const hasRecurringTag = frontmatter.tags?.includes("recurring-task") ||
-                             frontmatter.type === "recurring-task";
-
-      if (!hasRecurringTag || !frontmatter.interval || !frontmatter.interval_unit) {
-        return null;
-      }
-
-      return {
-        file,
-        last_done: frontmatter.last_done,
-        interval: frontmatter.interval,
-        interval_unit: frontmatter.interval_unit,
-        type: frontmatter.type,
-        tags: frontmatter.tags || []
-      };
-
+      return this.plugin.taskIndex.getTasksForPath(file.path);
     } catch (error) {
       console.error('Error getting current file task:', error);
-      return null;
+      return [];
+    }
+  }
+
+  /**
+   * One status widget per task; notes with a schedules list get a titled widget per schedule
+   */
+  private renderTasks(container: HTMLElement, tasks: UpkeepTask[]): void {
+    for (const task of tasks) {
+      this.renderTaskStatus(container, TaskProcessor.processTask(task, this.now));
     }
   }
 
@@ -135,6 +122,13 @@ export class UpkeepStatusView {
       cls: 'recurring-upkeep-status-widget'
     });
 
+    if (task.schedule_name) {
+      statusContainer.createEl('div', {
+        text: task.schedule_name,
+        cls: 'recurring-upkeep-status-schedule'
+      });
+    }
+
     // Main status display - using CSS class instead of inline styles
     const statusRow = statusContainer.createEl('div', {
       cls: 'recurring-upkeep-status-row'
@@ -151,11 +145,8 @@ export class UpkeepStatusView {
     primaryStatus.addClasses([statusClass]);
     // Font weight is now handled by CSS classes
 
-    // Complete button (if eligible) - localized button text
-    // Show button if task is overdue or never completed (daysRemaining <= 0)
-    // Don't show if completed today
-    const today = this.now;
-    const canComplete = (!task.last_done || (task.last_done !== today && task.daysRemaining <= 0));
+    // Complete button (if eligible per the completion-button setting) - localized button text
+    const canComplete = RecurringUpkeepUtils.canComplete(task, this.now);
     
     if (canComplete) {
       const buttonContainer = statusRow.createEl('div');
@@ -163,6 +154,11 @@ export class UpkeepStatusView {
       completeButton.render(buttonContainer, task);
     }
 
+    const actionsContainer = statusRow.createEl('div', {
+      cls: 'recurring-upkeep-actions-container'
+    });
+    new TaskActionsMenu(this.app).render(actionsContainer, task);
+
     // Progress bar - uses centralized styling automatically
     const progressBar = new ProgressBar();
     progressBar.render(statusContainer, task, this.now);
@@ -223,13 +219,15 @@ export class UpkeepStatusView {
       cls: 'recurring-upkeep-code-block'
     });
 
+    // Example uses the configured task schema so it can be copied as-is
+    const schema = TaskSchema.fields;
     const code = codeBlock.createEl('code');
     code.textContent = `---
 tags:
-  - recurring-task
-last_done: 2024-01-15
-interval: 1
-interval_unit: months
+  - ${schema.taskTag}
+${schema.lastDoneField}: 2024-01-15
+${schema.intervalField}: 1
+${schema.intervalUnitField}: months
 ---`;
 
     // Localized field descriptions - using CSS classes instead of inline styles
@@ -239,10 +237,10 @@ interval_unit: months
 
     const t = I18nUtils.t;
     const fields = [
-      t.ui.messages.setupFields.tags,
-      t.ui.messages.setupFields.lastDone,
-      t.ui.messages.setupFields.interval,
-      t.ui.messages.setupFields.intervalUnit
+      t.ui.messages.setupFields.tags(schema.taskTag),
+      t.ui.messages.setupFields.lastDone(schema.lastDoneField),
+      t.ui.messages.setupFields.interval(schema.intervalField),
+      t.ui.messages.setupFields.intervalUnit(schema.intervalUnitField)
     ];
 
     const fieldList = fieldDescription.createEl('ul', {
@@ -269,9 +267,6 @@ interval_unit: months
 
   // Cleanup method for when widget is destroyed
   destroy(): void {
-    if (this.eventRef) {
-      this.app.metadataCache.offref(this.eventRef);
-      this.eventRef = null;
-    }
+    this.removeEventListeners();
   }
 }
@@ -1,35 +1,32 @@
-import { App, TFile, EventRef } from 'obsidian';
-import { ProcessedTask, FilterQuery, UpkeepTask } from '../types';
+import { App, EventRef } from 'obsidian';
+import { ProcessedTask } from '../types';
 import { DateUtils } from '../utils/DateUtils';
-import { TaskProcessor } from '../utils/TaskProcessor';
+import { RecurringUpkeepUtils } from '../utils/RecurringUpkeepUtils';
 import { CompleteButton } from '../components/CompleteButton';
+import { TaskActionsMenu } from '../components/TaskActionsMenu';
 import { ProgressBar } from '../components/ProgressBar';
 import { StatusIndicator } from '../components/StatusIndicator';
 import { FilterParser } from './FilterParser';
 import { I18nUtils } from '../i18n/I18nUtils';
 import { TaskStyling } from '../utils/TaskStyling';
+import { TaskSchema } from '../utils/TaskSchema';
 import { RECURRING_UPKEEP_LOGGING_ENABLED } from '../constants';
 import RecurringUpkeepSchedulerPlugin from '../main';
 
-// Type definitions for TFile with tags (extended Obsidian interface)
-interface TFileWithTags extends TFile {
-  tags?: string[];
-}
-
 export class UpkeepTableView {
   private app: App;
   private plugin: RecurringUpkeepSchedulerPlugin;
   private filterQuery: string;
   private now: string;
   private container: HTMLElement | null = null;
-  private eventRef: EventRef | null = null;
+  private eventRefs: EventRef[] = [];
   private currentTasks: ProcessedTask[] = [];
 
   constructor(app: App, plugin: RecurringUpkeepSchedulerPlugin, filterQuery: string = '') {
     this.app = app;
     this.plugin = plugin;
     this.filterQuery = filterQuery;
-    this.now = new Date().toISOString().split('T')[0];
+    this.now = DateUtils.today();
   }
 
   render(container: HTMLElement, tasks: ProcessedTask[]): void {
@@ -37,7 +34,7 @@ export class UpkeepTableView {
     this.currentTasks = tasks;
     container.empty();
 
-    const filter = FilterParser.parse(this.filterQuery);
+    const filter = FilterParser.parse(this.getEffectiveFilterQuery());
     const filteredTasks = FilterParser.apply(tasks, filter);
 
     this.createTable(container, filteredTasks);
@@ -49,88 +46,58 @@ export class UpkeepTableView {
   private setupEventListeners(): void {
     if (!this.container) return;
 
-    // Clean up any existing listener
-    if (this.eventRef) {
-      this.app.metadataCache.offref(this.eventRef);
-    }
+    // Clean up any existing listeners
+    this.removeEventListeners();
 
-    this.eventRef = this.app.metadataCache.on('changed', async (file: TFile) => {
-      if (this.isRecurringTaskFile(file)) {
-        // Add a small delay to ensure metadata cache and Dataview are fully updated
-        setTimeout(async () => {
-          // UPDATE IN-PLACE: No reordering, no DOM destruction  
-          await this.updateTaskRowInPlace(file);
-        }, 50); // 50ms delay should be sufficient
-      }
-    });
+    const taskIndex = this.plugin.taskIndex;
+    this.eventRefs = [
+      taskIndex.on('changed', async (path: string) => {
+        // UPDATE IN-PLACE: No reordering, no DOM destruction
+        await this.updateTaskRowInPlace(path);
+      }),
+      taskIndex.on('rebuilt', async () => {
+        await this.fullRefresh();
+      })
+    ];
   }
 
-  private async updateTaskRowInPlace(changedFile: TFile): Promise<void> {
+  private removeEventListeners(): void {
+    for (const ref of this.eventRefs) {
+      this.plugin.taskIndex.offref(ref);
+    }
+    this.eventRefs = [];
+  }
+
+  private async updateTaskRowInPlace(path: string): Promise<void> {
     if (!this.container) return;
     
-    // Find the row for this specific file
-    const row = this.container.querySelector(`tr[data-task-path="${changedFile.path}"]`) as HTMLElement;
+    // Find the rows for this specific file (one per schedule)
+    const rows = Array.from(this.container.querySelectorAll(`tr[data-task-path="${path}"]`)) as HTMLElement[];
     
     try {
-      // Get updated task data from the same source as the sidebar view
-      // to ensure data consistency
-      const allTasks = await this.getUpkeepTasks();
-      const updatedTask = allTasks.find(task => task.file.path === changedFile.path);
-      
-      if (!updatedTask) {
-        // Task is no longer a recurring task, remove the row if it exists
-        if (row) {
+      // Get updated task data from the shared task index
+      const processedTasks = this.plugin.taskIndex.getProcessedTasksForPath(path, this.now);
+      const keys = processedTasks.map(task => TaskSchema.taskKey(task));
+
+      // Tasks that are no longer recurring tasks (or removed schedules) lose their rows
+      for (const row of rows) {
+        if (!keys.includes(row.getAttribute('data-task-key') || '')) {
           row.remove();
         }
-        return;
       }
 
-      // If the row doesn't exist but task is valid, we need full refresh
-      // (new task was added)
-      if (!row) {
-        await this.fullRefresh();
-        return;
-      }
+      for (const processedTask of processedTasks) {
+        const row = rows.find(row => row.getAttribute('data-task-key') === TaskSchema.taskKey(processedTask));
 
-      // Use the processed task data from the consistent data source
-      const processedTask = updatedTask;
-      
-      // Update the status cell content
-      const statusCell = row.querySelector('td:nth-child(2)'); // Second column (status column)
-      if (statusCell) {
-        // Clear the entire status cell and rebuild both components
-        statusCell.empty();
-        
-        // Create the status container 
-        const statusContainer = statusCell.createEl('div', {
-          cls: 'recurring-upkeep-status-container'
-        });
-        
-        // Rebuild status components in the new container
-        const statusIndicator = new StatusIndicator();
-        statusIndicator.render(statusContainer as HTMLElement, processedTask);
-
-        const progressBar = new ProgressBar();
-        progressBar.render(statusContainer as HTMLElement, processedTask, this.now);
-      }
-      
-      // Update complete button visibility
-      const buttonContainer = row.querySelector('.recurring-upkeep-button-container') as HTMLElement;
-      
-      if (buttonContainer) {
-        const today = this.now;
-        const canComplete = (!processedTask.last_done || (processedTask.last_done !== today && processedTask.daysRemaining <= 0));
-        
-        // Set data attribute for CSS-driven visibility
-        buttonContainer.setAttribute('data-can-complete', canComplete.toString());
-        
-        // Always ensure button exists - CSS will handle visibility
-        if (buttonContainer.children.length === 0) {
-          const completeButton = new CompleteButton(this.app);
-          completeButton.render(buttonContainer, processedTask);
+        // If the row doesn't exist but task is valid, we need full refresh
+        // (new task was added)
+        if (!row) {
+          await this.fullRefresh();
+          return;
         }
+
+        this.updateTaskRow(row, processedTask);
       }
-      
     } catch (error) {
       console.error('Error updating task row in-place:', error);
       // On error, try a full refresh as fallback
@@ -138,13 +105,63 @@ export class UpkeepTableView {
     }
   }
 
+  private updateTaskRow(row: HTMLElement, processedTask: ProcessedTask): void {
+    // Schedules can be renamed without changing their position
+    const scheduleName = row.querySelector('.recurring-upkeep-schedule-name');
+    if (scheduleName) {
+      scheduleName.textContent = processedTask.schedule_name || '';
+    }
+
+    // Update the status cell content
+    const statusCell = row.querySelector('td:nth-child(2)'); // Second column (status column)
+    if (statusCell) {
+      // Clear the entire status cell and rebuild both components
+      statusCell.empty();
+      
+      // Create the status container 
+      const statusContainer = statusCell.createEl('div', {
+        cls: 'recurring-upkeep-status-container'
+      });
+      
+      // Rebuild status components in the new container
+      const statusIndicator = new StatusIndicator();
+      statusIndicator.render(statusContainer as HTMLElement, processedTask);
+
+      const progressBar = new ProgressBar();
+      progressBar.render(statusContainer as HTMLElement, processedTask, this.now);
+    }
+    
+    // Update complete button visibility
+    const buttonContainer = row.querySelector('.recurring-upkeep-button-container') as HTMLElement;
+    
+    if (buttonContainer) {
+      const canComplete = RecurringUpkeepUtils.canComplete(processedTask, this.now);
+      
+      // Set data attribute for CSS-driven visibility
+      buttonContainer.setAttribute('data-can-complete', canComplete.toString());
+      
+      // Always ensure button exists - CSS will handle visibility
+      if (buttonContainer.children.length === 0) {
+        const completeButton = new CompleteButton(this.app);
+        completeButton.render(buttonContainer, processedTask);
+      }
+    }
+
+    // Actions depend on the task's current snooze, so rebuild them
+    const actionsContainer = row.querySelector('.recurring-upkeep-actions-container') as HTMLElement;
+    if (actionsContainer) {
+      actionsContainer.empty();
+      new TaskActionsMenu(this.app).render(actionsContainer, processedTask);
+    }
+  }
+
   private async fullRefresh(): Promise<void> {
     if (!this.container) return;
     
     try {
-      // Re-fetch all tasks
-      const tasks = await this.getUpkeepTasks();
-      const filter = FilterParser.parse(this.filterQuery);
+      // Re-read all tasks from the index
+      const tasks = this.plugin.taskIndex.getProcessedTasks(this.now);
+      const filter = FilterParser.parse(this.getEffectiveFilterQuery());
       const filteredTasks = FilterParser.apply(tasks, filter);
       
       // Clear and re-render
@@ -162,23 +179,11 @@ export class UpkeepTableView {
     }
   }
 
-  private isRecurringTaskFile(file: TFile): boolean {
-    if (file.extension !== 'md') return false;
-    
-    const cache = this.app.metadataCache.getFileCache(file);
-    const frontmatter = cache?.frontmatter;
-    
-    return frontmatter?.tags?.includes("recurring-task") ||
-           frontmatter?.type === "recurring-task";
-  }
-
-  private async getUpkeepTasks(): Promise<ProcessedTask[]> {
-    // Get tasks directly from the plugin instance
-    const tasks = await this.plugin.getUpkeepTasks();
-    
-    // Process and sort tasks
-    const processedTasks = TaskProcessor.processTasks(tasks);
-    return TaskProcessor.sortTasks(processedTasks);
+  /**
+   * Empty code blocks (and the sidebar) fall back to the default filter from the settings
+   */
+  private getEffectiveFilterQuery(): string {
+    return this.filterQuery.trim() ? this.filterQuery : this.plugin.settings.defaultFilter;
   }
 
   private createTable(container: HTMLElement, tasks: ProcessedTask[]): void {
@@ -231,11 +236,19 @@ export class UpkeepTableView {
 
   private createTaskRow(tbody: HTMLElement, task: ProcessedTask, index: number): void {
     const row = tbody.createEl('tr', {
-      attr: { 'data-task-path': task.file.path } // Add tracking attribute for in-place updates
+      // Add tracking attributes for in-place updates
+      attr: { 'data-task-path': task.file.path, 'data-task-key': TaskSchema.taskKey(task) }
     });
 
     this.createTaskNameCell(row, task);
     this.createStatusCell(row, task);
+
+    // Right-click offers the same actions as the row's "⋯" button
+    row.addEventListener('contextmenu', (event) => {
+      event.preventDefault();
+      const currentTask = this.plugin.taskIndex.getProcessedTask(TaskSchema.taskKey(task), this.now) || task;
+      new TaskActionsMenu(this.app).show(event, currentTask);
+    });
   }
 
   private createTaskNameCell(row: HTMLElement, task: ProcessedTask): void {
@@ -256,14 +269,21 @@ export class UpkeepTableView {
       this.app.workspace.openLinkText(task.file.path, '');
     });
 
+    // Notes with a schedules list show which schedule the row is for
+    if (task.schedule_name) {
+      nameContainer.createEl('span', {
+        text: task.schedule_name,
+        cls: 'recurring-upkeep-schedule-name'
+      });
+    }
+
     // Always create button container for consistent update behavior
     const buttonContainer = nameContainer.createEl('div', {
       cls: 'recurring-upkeep-button-container'
     });
 
     // Check if task can be completed (for CSS data attribute)
-    const today = this.now;
-    const canComplete = (!task.last_done || (task.last_done !== today && task.daysRemaining <= 0));
+    const canComplete = RecurringUpkeepUtils.canComplete(task, this.now);
     
     // Set data attribute for CSS-driven visibility
     buttonContainer.setAttribute('data-can-complete', canComplete.toString());
@@ -271,6 +291,11 @@ export class UpkeepTableView {
     // Always create the button - CSS will control visibility
     const completeButton = new CompleteButton(this.app);
     completeButton.render(buttonContainer, task);
+
+    const actionsContainer = nameContainer.createEl('div', {
+      cls: 'recurring-upkeep-actions-container'
+    });
+    new TaskActionsMenu(this.app).render(actionsContainer, task);
   }
 
   private createStatusCell(row: HTMLElement, task: ProcessedTask): void {
@@ -289,9 +314,6 @@ export class UpkeepTableView {
 
   // Cleanup method for when widget is destroyed
   destroy(): void {
-    if (this.eventRef) {
-      this.app.metadataCache.offref(this.eventRef);
-      this.eventRef = null;
-    }
+    this.removeEventListeners();
   }
 }